@@ -1,28 +1,58 @@
 import { useEffect, useRef, useState } from 'react';
 import { AudioProcessor } from './lib/audioProcessor';
+import { DEFAULT_FFT_SIZE, DEFAULT_SMOOTHING } from './lib/featureExtractor';
+import { AudioSource, DisplayAudioSource, FileSource, MicrophoneSource } from './lib/audioSources';
+import { MidiSource } from './lib/midiSource';
+import { DEFAULT_TEST_SIGNAL_PRESET, GeneratorSource, TestSignalPreset } from './lib/signalGenerator';
+import { OfflineRenderer, OfflineRenderProgress } from './lib/offlineRenderer';
+import { DEFAULT_MATCH_DISTANCE } from './lib/soundSignature';
+import { BandLayout, DEFAULT_BAND_LAYOUT } from './lib/frequencyBands';
 import { VisualMapper } from './lib/visualMapper';
-import { VisualRenderer } from './lib/visualRenderer';
+import { DEFAULT_PALETTE, PaletteTheme } from './lib/palettes';
+import { ColorMode, DEFAULT_COLOR_MODE } from './lib/pitchColors';
+import { DEFAULT_MAPPING_STRATEGY } from './lib/mappingStrategies';
+import { VisualRenderer, RenderOptions, SpawnMode, Placement } from './lib/visualRenderer';
 import { StorageService, Artwork } from './lib/storage';
 import { ExportUtils } from './lib/exportUtils';
 import { AudioDeviceManager } from './lib/audioDeviceManager';
-import { Controls } from './components/Controls';
+import { Controls, AudioFileState } from './components/Controls';
 import { ExportDialog, ExportOptions } from './components/ExportDialog';
+import { OfflineRenderDialog, OfflineRenderRequest } from './components/OfflineRenderDialog';
 import { Gallery } from './components/Gallery';
+import { MappingLibrary } from './components/MappingLibrary';
+import { TeachDialog } from './components/TeachDialog';
+import { MappingRulesDialog } from './components/MappingRulesDialog';
 import { PermissionDialog } from './components/PermissionDialog';
-import { AudioDeviceDisplay } from './components/AudioDeviceDisplay';
+import { AudioDeviceDisplay, InputSourceKind } from './components/AudioDeviceDisplay';
 import { AudioSensitivityIndicator } from './components/AudioSensitivityIndicator';
+import { FrequencyBandsDisplay } from './components/FrequencyBandsDisplay';
+import { AnalysisSettings } from './components/AnalysisSettings';
+import { PaletteSettings } from './components/PaletteSettings';
 import { ConfirmationDialog } from './components/ConfirmationDialog';
 import { Palette } from 'lucide-react';
 
+const INPUT_SOURCE_ERRORS: Record<InputSourceKind, string> = {
+  microphone: 'Unable to access microphone. Please grant permission and try again.',
+  display: 'Tab or system audio capture was cancelled. Make sure “Share audio” is enabled.',
+  midi: 'No MIDI device found. Connect a keyboard or pad and try again.',
+  generator: 'Unable to start the test signal.'
+};
+
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioProcessorRef = useRef<AudioProcessor | null>(null);
   const visualMapperRef = useRef<VisualMapper | null>(null);
   const visualRendererRef = useRef<VisualRenderer | null>(null);
   const deviceManagerRef = useRef<AudioDeviceManager | null>(null);
+  const fileSourceRef = useRef<FileSource | null>(null);
+  const midiSourceRef = useRef<MidiSource | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(0);
   const isRecordingRef = useRef<boolean>(false);
+  const renderOptionsRef = useRef<RenderOptions | null>(null);
+  const stopRecordingRef = useRef<() => void>(() => {});
+  const offlineCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const offlineAbortRef = useRef<AbortController | null>(null);
 
   const [isRecording, setIsRecording] = useState(false);
   const [sensitivity, setSensitivity] = useState(1);
@@ -30,13 +60,46 @@ function App() {
   const [isDark, setIsDark] = useState(true);
   const [fadeEnabled, setFadeEnabled] = useState(false);
   const [fadeDuration, setFadeDuration] = useState(3);
+  const [spawnMode, setSpawnMode] = useState<SpawnMode>('continuous');
+  const [placement, setPlacement] = useState<Placement>('random');
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showOfflineRender, setShowOfflineRender] = useState(false);
+  const [offlineProgress, setOfflineProgress] = useState<OfflineRenderProgress | null>(null);
   const [showGallery, setShowGallery] = useState(false);
+  const [showMappingLibrary, setShowMappingLibrary] = useState(false);
+  const [showTeachDialog, setShowTeachDialog] = useState(false);
+  const [showRulesDialog, setShowRulesDialog] = useState(false);
   const [showPermissionDialog, setShowPermissionDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasPermission, setHasPermission] = useState(false);
   const [showFadeConfirmation, setShowFadeConfirmation] = useState(false);
   const [pendingFadeState, setPendingFadeState] = useState<boolean | null>(null);
+  const [audioFile, setAudioFile] = useState<AudioFileState | null>(null);
+  const [fftSize, setFftSize] = useState(DEFAULT_FFT_SIZE);
+  const [smoothing, setSmoothing] = useState(DEFAULT_SMOOTHING);
+  const [threshold, setThreshold] = useState(0.02);
+  const [matchDistance, setMatchDistance] = useState(DEFAULT_MATCH_DISTANCE);
+  const [palette, setPalette] = useState<PaletteTheme>(DEFAULT_PALETTE);
+  const [colorMode, setColorMode] = useState<ColorMode>(DEFAULT_COLOR_MODE);
+  const [mappingStrategy, setMappingStrategy] = useState(DEFAULT_MAPPING_STRATEGY);
+  const [clusterLimit, setClusterLimit] = useState<number | null>(null);
+  const [noiseFloor, setNoiseFloor] = useState(0);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [inputSource, setInputSource] = useState<InputSourceKind>('microphone');
+  const [testSignal, setTestSignal] = useState<TestSignalPreset>(DEFAULT_TEST_SIGNAL_PRESET);
+  const [bandLayout, setBandLayout] = useState<BandLayout>(DEFAULT_BAND_LAYOUT);
+
+  // The animation loop outlives the render that started it, so it reads the
+  // latest tunable options through a ref.
+  renderOptionsRef.current = {
+    globalOpacity: opacity,
+    sensitivity,
+    fadeEnabled,
+    fadeDuration: fadeDuration * 1000,
+    spawnMode,
+    threshold,
+    placement
+  };
 
   useEffect(() => {
     if (canvasRef.current) {
@@ -53,9 +116,23 @@ function App() {
       window.addEventListener('resize', updateSize);
 
       visualRendererRef.current = new VisualRenderer(canvas);
+      audioProcessorRef.current = new AudioProcessor();
       visualMapperRef.current = new VisualMapper();
 
       deviceManagerRef.current = new AudioDeviceManager();
+      const unsubscribeDevices = deviceManagerRef.current.onDeviceChange(({ input }) => {
+        applyNoiseFloor();
+
+        const processor = audioProcessorRef.current;
+        const source = processor?.currentSource;
+        if (!processor?.active || !(source instanceof MicrophoneSource)) return;
+        if (source.deviceId === (input?.deviceId || undefined)) return;
+
+        processor.switchSource(new MicrophoneSource(input?.deviceId)).catch(err => {
+          setError('Unable to switch to the selected microphone.');
+          console.error(err);
+        });
+      });
       deviceManagerRef.current.initialize().catch(err => {
         console.error('Failed to initialize device manager:', err);
       });
@@ -64,16 +141,65 @@ function App() {
 
       return () => {
         window.removeEventListener('resize', updateSize);
+        unsubscribeDevices();
         if (animationFrameRef.current) {
           cancelAnimationFrame(animationFrameRef.current);
         }
         if (audioProcessorRef.current) {
           audioProcessorRef.current.stop();
         }
+        if (fileSourceRef.current) {
+          fileSourceRef.current.release();
+          fileSourceRef.current = null;
+        }
+        midiSourceRef.current?.disconnect();
       };
     }
   }, []);
 
+  useEffect(() => {
+    audioProcessorRef.current?.setAnalyserSettings({ fftSize, smoothingTimeConstant: smoothing });
+  }, [fftSize, smoothing]);
+
+  useEffect(() => {
+    visualMapperRef.current?.setMatchDistance(matchDistance);
+  }, [matchDistance]);
+
+  useEffect(() => {
+    visualMapperRef.current?.setPalette(palette);
+  }, [palette]);
+
+  useEffect(() => {
+    visualMapperRef.current?.setColorMode(colorMode);
+  }, [colorMode]);
+
+  useEffect(() => {
+    visualMapperRef.current?.setStrategy(mappingStrategy);
+  }, [mappingStrategy]);
+
+  useEffect(() => {
+    visualMapperRef.current?.setClusterLimit(clusterLimit);
+  }, [clusterLimit]);
+
+  useEffect(() => {
+    audioProcessorRef.current?.setBandLayout(bandLayout);
+    midiSourceRef.current?.setBandLayout(bandLayout);
+  }, [bandLayout]);
+
+  // stopRecording reads current state, so the handler calls it through a ref
+  // instead of re-subscribing on every render.
+  useEffect(() => {
+    const processor = audioProcessorRef.current;
+    if (!processor || !isRecording) return;
+
+    return processor.onSourceEnded((source) => {
+      stopRecordingRef.current();
+      if (source.kind === 'display') {
+        setError('Screen sharing ended, so recording has stopped.');
+      }
+    });
+  }, [isRecording]);
+
   const requestMicrophonePermission = async () => {
     if (hasPermission) return;
 
@@ -104,25 +230,86 @@ function App() {
   const startRecording = async () => {
     try {
       setError(null);
-      audioProcessorRef.current = new AudioProcessor();
-      await audioProcessorRef.current.initialize();
+      if (!audioProcessorRef.current) return;
+
+      if (fileSourceRef.current) {
+        await audioProcessorRef.current.initialize(fileSourceRef.current);
+      } else if (inputSource === 'midi') {
+        const midiSource = new MidiSource(bandLayout);
+        await midiSource.connect();
+        midiSourceRef.current = midiSource;
+      } else {
+        await audioProcessorRef.current.initialize(createLiveSource(inputSource));
+      }
+      applyNoiseFloor();
       startTimeRef.current = Date.now();
       isRecordingRef.current = true;
       setIsRecording(true);
       animate();
     } catch (err) {
-      setError('Unable to access microphone. Please grant permission and try again.');
+      setError(fileSourceRef.current
+        ? 'Unable to play the selected audio file. Please try another file.'
+        : INPUT_SOURCE_ERRORS[inputSource]);
       console.error(err);
     }
   };
 
+  const createLiveSource = (kind: Exclude<InputSourceKind, 'midi'>): AudioSource => {
+    switch (kind) {
+      case 'display':
+        return new DisplayAudioSource();
+      case 'generator':
+        return new GeneratorSource(testSignal);
+      default:
+        return new MicrophoneSource(deviceManagerRef.current?.getInputDevice()?.deviceId);
+    }
+  };
+
+  const handleInputSourceChange = (kind: InputSourceKind) => {
+    if (kind === inputSource) return;
+    setInputSource(kind);
+
+    // MIDI does not go through the audio graph, so it cannot be hot-swapped.
+    if (kind === 'midi' || inputSource === 'midi') {
+      if (isRecording && !fileSourceRef.current) {
+        stopRecording();
+      }
+      return;
+    }
+
+    const processor = audioProcessorRef.current;
+    if (!processor?.active || fileSourceRef.current) return;
+
+    processor.switchSource(createLiveSource(kind))
+      .then(applyNoiseFloor)
+      .catch(err => {
+        setError(INPUT_SOURCE_ERRORS[kind]);
+        console.error(err);
+      });
+  };
+
+  const handleTestSignalChange = (preset: TestSignalPreset) => {
+    setTestSignal(preset);
+
+    const processor = audioProcessorRef.current;
+    if (!processor?.active || !(processor.currentSource instanceof GeneratorSource)) return;
+
+    processor.switchSource(new GeneratorSource(preset)).catch(err => {
+      setError(INPUT_SOURCE_ERRORS.generator);
+      console.error(err);
+    });
+  };
+
   const stopRecording = () => {
     isRecordingRef.current = false;
     setIsRecording(false);
 
     if (audioProcessorRef.current) {
       audioProcessorRef.current.stop();
-      audioProcessorRef.current = null;
+    }
+    if (midiSourceRef.current) {
+      midiSourceRef.current.disconnect();
+      midiSourceRef.current = null;
     }
 
     if (!fadeEnabled || !visualRendererRef.current?.hasActiveElements()) {
@@ -132,27 +319,121 @@ function App() {
       }
     }
   };
+  stopRecordingRef.current = stopRecording;
+
+  const applyNoiseFloor = () => {
+    const deviceManager = deviceManagerRef.current;
+    const device = deviceManager?.getInputDevice();
+    const floor = deviceManager && device ? deviceManager.getNoiseFloor(device.deviceId) : 0;
+    setNoiseFloor(floor);
+
+    const processor = audioProcessorRef.current;
+    processor?.setNoiseFloor(processor.currentSource instanceof MicrophoneSource ? floor : 0);
+  };
+
+  const handleCalibrate = async () => {
+    const processor = audioProcessorRef.current;
+    const deviceManager = deviceManagerRef.current;
+    const device = deviceManager?.getInputDevice();
+    if (!processor?.active || !deviceManager || !device) return;
+
+    setIsCalibrating(true);
+    try {
+      const floor = await processor.calibrateNoiseFloor();
+      deviceManager.setNoiseFloor(device.deviceId, floor);
+      applyNoiseFloor();
+    } catch (err) {
+      setError('Noise calibration failed. Please try again.');
+      console.error(err);
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const handleResetNoiseFloor = () => {
+    const deviceManager = deviceManagerRef.current;
+    const device = deviceManager?.getInputDevice();
+    if (!deviceManager || !device) return;
+
+    deviceManager.clearNoiseFloor(device.deviceId);
+    applyNoiseFloor();
+  };
+
+  const releaseFileSource = () => {
+    if (fileSourceRef.current) {
+      fileSourceRef.current.release();
+      fileSourceRef.current = null;
+    }
+    setAudioFile(null);
+  };
+
+  const handleAudioFileSelect = (file: File) => {
+    let source: FileSource;
+    try {
+      source = new FileSource(file);
+    } catch (err) {
+      setError('Unsupported audio file. Please choose a WAV, MP3 or OGG file.');
+      console.error(err);
+      return;
+    }
+
+    if (isRecording) {
+      stopRecording();
+    }
+    releaseFileSource();
+
+    fileSourceRef.current = source;
+    source.onPlaybackChange((state) => {
+      setAudioFile({ name: source.label, ...state });
+    });
+    setAudioFile({ name: source.label, ...source.getPlaybackState() });
+    setError(null);
+  };
+
+  const handleAudioFileClear = () => {
+    if (isRecording) {
+      stopRecording();
+    }
+    releaseFileSource();
+  };
+
+  const handlePlayPause = () => {
+    const source = fileSourceRef.current;
+    if (!source) return;
+
+    if (!isRecording) {
+      startRecording();
+    } else if (source.getPlaybackState().isPlaying) {
+      source.pause();
+    } else {
+      source.play().catch(err => {
+        console.error('Playback error:', err);
+      });
+    }
+  };
+
+  const handleSeek = (seconds: number) => {
+    fileSourceRef.current?.seek(seconds);
+  };
 
   const animate = () => {
     if (!visualRendererRef.current || !visualMapperRef.current) {
       return;
     }
 
-    const hasAudio = audioProcessorRef.current && isRecordingRef.current;
+    const featureSource = midiSourceRef.current ?? audioProcessorRef.current;
+    const hasAudio = featureSource && isRecordingRef.current;
     const hasActiveElements = visualRendererRef.current.hasActiveElements();
 
     if (hasAudio) {
-      const audioFeatures = audioProcessorRef.current.getAudioFeatures();
+      const audioFeatures = featureSource.getAudioFeatures();
 
       if (audioFeatures) {
         const mapping = visualMapperRef.current.getOrCreateMapping(audioFeatures);
 
-        visualRendererRef.current.render(mapping, audioFeatures, {
-          globalOpacity: opacity,
-          sensitivity,
-          fadeEnabled,
-          fadeDuration: fadeDuration * 1000
-        });
+        if (visualRendererRef.current.render(mapping, audioFeatures, renderOptionsRef.current!)) {
+          visualMapperRef.current.recordHit(mapping.id);
+        }
       }
     } else if (fadeEnabled && hasActiveElements) {
       const dummyAudioFeatures = {
@@ -171,12 +452,7 @@ function App() {
         shapeType: 'circle' as const
       };
 
-      visualRendererRef.current.render(dummyMapping, dummyAudioFeatures, {
-        globalOpacity: opacity,
-        sensitivity,
-        fadeEnabled,
-        fadeDuration: fadeDuration * 1000
-      });
+      visualRendererRef.current.render(dummyMapping, dummyAudioFeatures, renderOptionsRef.current!);
     }
 
     if (isRecordingRef.current || (fadeEnabled && hasActiveElements)) {
@@ -209,16 +485,62 @@ function App() {
   };
 
   const handleExport = async (options: ExportOptions) => {
-    if (!canvasRef.current) return;
+    const canvas = offlineCanvasRef.current ?? canvasRef.current;
+    if (!canvas) return;
 
     try {
-      await ExportUtils.exportCanvas(canvasRef.current, options);
+      await ExportUtils.exportCanvas(canvas, options);
     } catch (err) {
       console.error('Export error:', err);
       alert('Failed to export artwork. Please try again.');
     }
   };
 
+  const handleCloseExportDialog = () => {
+    offlineCanvasRef.current = null;
+    setShowExportDialog(false);
+  };
+
+  const handleOfflineRender = async (request: OfflineRenderRequest) => {
+    const fileSource = fileSourceRef.current;
+    const processor = audioProcessorRef.current;
+    if (!fileSource || !processor || !visualMapperRef.current || !canvasRef.current) return;
+
+    const controller = new AbortController();
+    offlineAbortRef.current = controller;
+    setOfflineProgress({ frame: 0, totalFrames: 0 });
+
+    try {
+      const canvas = await OfflineRenderer.renderFile(fileSource.file, visualMapperRef.current, {
+        ...request,
+        referenceWidth: canvasRef.current.width,
+        renderOptions: renderOptionsRef.current!,
+        analyserSettings: processor.getAnalyserSettings(),
+        bandLayout: processor.getBandLayout()
+      }, {
+        onProgress: setOfflineProgress,
+        signal: controller.signal
+      });
+
+      offlineCanvasRef.current = canvas;
+      setShowOfflineRender(false);
+      setShowExportDialog(true);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError('Offline rendering failed. Try a smaller canvas size.');
+        console.error(err);
+      }
+    } finally {
+      offlineAbortRef.current = null;
+      setOfflineProgress(null);
+    }
+  };
+
+  const handleCancelOfflineRender = () => {
+    offlineAbortRef.current?.abort();
+    setShowOfflineRender(false);
+  };
+
   const handleLoadArtwork = (artwork: Artwork) => {
     if (!canvasRef.current) return;
 
@@ -236,7 +558,7 @@ function App() {
   const toggleRecording = () => {
     if (isRecording) {
       stopRecording();
-    } else if (hasPermission) {
+    } else if (hasPermission || fileSourceRef.current || inputSource !== 'microphone') {
       startRecording();
     } else {
       setShowPermissionDialog(true);
@@ -333,14 +655,27 @@ function App() {
               <Controls
                 isRecording={isRecording}
                 onToggleRecording={toggleRecording}
+                audioFile={audioFile}
+                onAudioFileSelect={handleAudioFileSelect}
+                onAudioFileClear={handleAudioFileClear}
+                onPlayPause={handlePlayPause}
+                onSeek={handleSeek}
+                onRenderOffline={() => setShowOfflineRender(true)}
                 onClear={handleClear}
                 onSave={handleSave}
                 onExport={() => setShowExportDialog(true)}
                 onGallery={() => setShowGallery(true)}
+                onMappingLibrary={() => setShowMappingLibrary(true)}
+                onTeach={() => setShowTeachDialog(true)}
+                canTeach={isRecording && (!!audioFile || inputSource !== 'midi')}
                 sensitivity={sensitivity}
                 onSensitivityChange={setSensitivity}
                 opacity={opacity}
                 onOpacityChange={setOpacity}
+                spawnMode={spawnMode}
+                onSpawnModeChange={setSpawnMode}
+                placement={placement}
+                onPlacementChange={setPlacement}
                 fadeEnabled={fadeEnabled}
                 onFadeEnabledChange={handleFadeToggle}
                 fadeDuration={fadeDuration}
@@ -348,14 +683,59 @@ function App() {
                 isDark={isDark}
                 onToggleTheme={() => setIsDark(!isDark)}
               />
-              <AudioSensitivityIndicator
-                isActive={isRecording}
-                sensitivity={sensitivity}
+              {audioProcessorRef.current && (
+                <AudioSensitivityIndicator
+                  frameSource={midiSourceRef.current ?? audioProcessorRef.current}
+                  isActive={isRecording}
+                  sensitivity={sensitivity}
+                  isDark={isDark}
+                />
+              )}
+              {audioProcessorRef.current && (
+                <FrequencyBandsDisplay
+                  frameSource={midiSourceRef.current ?? audioProcessorRef.current}
+                  layout={bandLayout}
+                  onLayoutChange={setBandLayout}
+                  isActive={isRecording}
+                  isDark={isDark}
+                />
+              )}
+              <AnalysisSettings
+                fftSize={fftSize}
+                onFftSizeChange={setFftSize}
+                smoothing={smoothing}
+                onSmoothingChange={setSmoothing}
+                threshold={threshold}
+                onThresholdChange={setThreshold}
+                matchDistance={matchDistance}
+                onMatchDistanceChange={setMatchDistance}
+                mappingStrategy={mappingStrategy}
+                onMappingStrategyChange={setMappingStrategy}
+                ruleCount={visualMapperRef.current?.getRuleSet()?.rules.length ?? 0}
+                onEditRules={() => setShowRulesDialog(true)}
+                clusterLimit={clusterLimit}
+                onClusterLimitChange={setClusterLimit}
+                noiseFloor={noiseFloor}
+                canCalibrate={isRecording && !audioFile && inputSource === 'microphone'}
+                isCalibrating={isCalibrating}
+                onCalibrate={handleCalibrate}
+                onResetNoiseFloor={handleResetNoiseFloor}
+                isDark={isDark}
+              />
+              <PaletteSettings
+                palette={palette}
+                onPaletteChange={setPalette}
+                colorMode={colorMode}
+                onColorModeChange={setColorMode}
                 isDark={isDark}
               />
               {deviceManagerRef.current && (
                 <AudioDeviceDisplay
                   deviceManager={deviceManagerRef.current}
+                  inputSource={inputSource}
+                  testSignal={testSignal}
+                  onTestSignalChange={handleTestSignalChange}
+                  onInputSourceChange={handleInputSourceChange}
                   isDark={isDark}
                 />
               )}
@@ -366,12 +746,23 @@ function App() {
 
       {showExportDialog && (
         <ExportDialog
-          onClose={() => setShowExportDialog(false)}
+          onClose={handleCloseExportDialog}
           onExport={handleExport}
           isDark={isDark}
         />
       )}
 
+      {showOfflineRender && audioFile && (
+        <OfflineRenderDialog
+          fileName={audioFile.name}
+          progress={offlineProgress}
+          onRender={handleOfflineRender}
+          onCancel={handleCancelOfflineRender}
+          onClose={() => setShowOfflineRender(false)}
+          isDark={isDark}
+        />
+      )}
+
       {showGallery && (
         <Gallery
           onClose={() => setShowGallery(false)}
@@ -380,6 +771,31 @@ function App() {
         />
       )}
 
+      {showMappingLibrary && visualMapperRef.current && (
+        <MappingLibrary
+          visualMapper={visualMapperRef.current}
+          onClose={() => setShowMappingLibrary(false)}
+          isDark={isDark}
+        />
+      )}
+
+      {showTeachDialog && audioProcessorRef.current && visualMapperRef.current && (
+        <TeachDialog
+          audioProcessor={audioProcessorRef.current}
+          visualMapper={visualMapperRef.current}
+          onClose={() => setShowTeachDialog(false)}
+          isDark={isDark}
+        />
+      )}
+
+      {showRulesDialog && visualMapperRef.current && (
+        <MappingRulesDialog
+          visualMapper={visualMapperRef.current}
+          onClose={() => setShowRulesDialog(false)}
+          isDark={isDark}
+        />
+      )}
+
       {showPermissionDialog && (
         <PermissionDialog
           onRequestPermission={handlePermissionGranted}
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, Gauge, RotateCcw, ScrollText } from 'lucide-react';
+import { FFT_SIZES } from '../lib/audioProcessor';
+import { MAX_MATCH_DISTANCE, MIN_MATCH_DISTANCE } from '../lib/soundSignature';
+import { getMappingStrategies } from '../lib/mappingStrategies';
+import { DEFAULT_CLUSTER_LIMIT, MAX_CLUSTER_LIMIT, MIN_CLUSTER_LIMIT } from '../lib/visualMapper';
+
+interface AnalysisSettingsProps {
+  fftSize: number;
+  onFftSizeChange: (value: number) => void;
+  smoothing: number;
+  onSmoothingChange: (value: number) => void;
+  threshold: number;
+  onThresholdChange: (value: number) => void;
+  matchDistance: number;
+  onMatchDistanceChange: (value: number) => void;
+  mappingStrategy: string;
+  onMappingStrategyChange: (id: string) => void;
+  ruleCount: number;
+  onEditRules: () => void;
+  clusterLimit: number | null;
+  onClusterLimitChange: (value: number | null) => void;
+  noiseFloor: number;
+  canCalibrate: boolean;
+  isCalibrating: boolean;
+  onCalibrate: () => void;
+  onResetNoiseFloor: () => void;
+  isDark: boolean;
+}
+
+export function AnalysisSettings({
+  fftSize,
+  onFftSizeChange,
+  smoothing,
+  onSmoothingChange,
+  threshold,
+  onThresholdChange,
+  matchDistance,
+  onMatchDistanceChange,
+  mappingStrategy,
+  onMappingStrategyChange,
+  ruleCount,
+  onEditRules,
+  clusterLimit,
+  onClusterLimitChange,
+  noiseFloor,
+  canCalibrate,
+  isCalibrating,
+  onCalibrate,
+  onResetNoiseFloor,
+  isDark
+}: AnalysisSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const strategies = getMappingStrategies();
+
+  return (
+    <div className={`rounded-xl p-4 ${
+      isDark ? 'bg-gray-800/50' : 'bg-gray-100/50'
+    }`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between"
+      >
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className={`w-4 h-4 ${isDark ? 'text-gray-300' : 'text-gray-600'}`} />
+          <h3 className={`text-sm font-semibold ${
+            isDark ? 'text-gray-200' : 'text-gray-700'
+          }`}>
+            Analysis Settings
+          </h3>
+        </div>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''} ${
+          isDark ? 'text-gray-400' : 'text-gray-500'
+        }`} />
+      </button>
+
+      {isOpen && (
+        <div className={`mt-4 space-y-4 text-xs ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          <div>
+            <label className="block font-medium mb-2">FFT Size</label>
+            <div className="grid grid-cols-5 gap-1">
+              {FFT_SIZES.map((size) => (
+                <button
+                  key={size}
+                  onClick={() => onFftSizeChange(size)}
+                  className={`py-1.5 rounded-md font-mono transition-colors ${
+                    fftSize === size
+                      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                      : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                  }`}
+                >
+                  {size}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">
+              Smoothing: {smoothing.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="0.95"
+              step="0.05"
+              value={smoothing}
+              onChange={(e) => onSmoothingChange(parseFloat(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">
+              Spawn Threshold: {threshold.toFixed(3)}
+            </label>
+            <input
+              type="range"
+              min="0.005"
+              max="0.2"
+              step="0.005"
+              value={threshold}
+              onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">
+              Sound Match Tolerance: {matchDistance.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min={MIN_MATCH_DISTANCE}
+              max={MAX_MATCH_DISTANCE}
+              step="0.05"
+              value={matchDistance}
+              onChange={(e) => onMatchDistanceChange(parseFloat(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+            <div className="flex justify-between opacity-70 mt-1">
+              <span>More visuals</span>
+              <span>More reuse</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">Mapping Strategy</label>
+            <div className="grid grid-cols-2 gap-1">
+              {strategies.map((strategy) => (
+                <button
+                  key={strategy.id}
+                  onClick={() => onMappingStrategyChange(strategy.id)}
+                  className={`py-1.5 rounded-md transition-colors ${
+                    mappingStrategy === strategy.id
+                      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                      : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                  }`}
+                  title={strategy.description}
+                >
+                  {strategy.name}
+                </button>
+              ))}
+            </div>
+            <p className="opacity-70 mt-1">
+              {strategies.find(strategy => strategy.id === mappingStrategy)?.description} Applies to new sounds only.
+            </p>
+            <button
+              onClick={onEditRules}
+              className={`w-full mt-2 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+                isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              <ScrollText className="w-3.5 h-3.5" />
+              {ruleCount > 0 ? `Edit Rules (${ruleCount} active)` : 'Add Rules'}
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="font-medium">Sound Families</label>
+              <button
+                onClick={() => onClusterLimitChange(clusterLimit === null ? DEFAULT_CLUSTER_LIMIT : null)}
+                className={`relative w-10 h-5 rounded-full transition-colors ${
+                  clusterLimit !== null ? 'bg-blue-500' : 'bg-gray-600'
+                }`}
+              >
+                <div className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+                  clusterLimit !== null ? 'translate-x-5' : 'translate-x-0'
+                }`} />
+              </button>
+            </div>
+            {clusterLimit !== null ? (
+              <>
+                <label className="block mb-2">At most {clusterLimit} families</label>
+                <input
+                  type="range"
+                  min={MIN_CLUSTER_LIMIT}
+                  max={MAX_CLUSTER_LIMIT}
+                  value={clusterLimit}
+                  onChange={(e) => onClusterLimitChange(parseInt(e.target.value, 10))}
+                  className="w-full accent-blue-500"
+                />
+              </>
+            ) : (
+              <p className="opacity-70">Group similar sounds so a piece settles into a few recurring visuals.</p>
+            )}
+          </div>
+
+          <div className={`pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-300'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium">Room Noise Floor</span>
+              <span className="font-mono">{noiseFloor > 0 ? noiseFloor.toFixed(3) : 'not set'}</span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={onCalibrate}
+                disabled={!canCalibrate || isCalibrating}
+                className={`flex-1 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                } ${!canCalibrate || isCalibrating ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <Gauge className={`w-3.5 h-3.5 ${isCalibrating ? 'animate-pulse' : ''}`} />
+                {isCalibrating ? 'Listening… stay quiet' : 'Calibrate Room Noise'}
+              </button>
+              <button
+                onClick={onResetNoiseFloor}
+                disabled={noiseFloor === 0 || isCalibrating}
+                className={`px-3 rounded-lg transition-colors ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                } ${noiseFloor === 0 || isCalibrating ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title="Reset noise floor"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {!canCalibrate && (
+              <p className={`mt-2 ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                Start recording from a microphone to calibrate.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,32 @@
 import { useEffect, useState } from 'react';
-import { Mic, Speaker, RefreshCw, AlertCircle } from 'lucide-react';
-import { AudioDeviceManager, CurrentDevices } from '../lib/audioDeviceManager';
+import { Mic, MonitorSpeaker, Piano, AudioWaveform, Speaker, RefreshCw, AlertCircle } from 'lucide-react';
+import { AudioDeviceManager, AudioDeviceInfo, CurrentDevices } from '../lib/audioDeviceManager';
+import { DisplayAudioSource } from '../lib/audioSources';
+import { MidiSource } from '../lib/midiSource';
+import { TestSignalPreset } from '../lib/signalGenerator';
+import { TestSignalControls } from './TestSignalControls';
+
+export type InputSourceKind = 'microphone' | 'display' | 'midi' | 'generator';
 
 interface AudioDeviceDisplayProps {
   deviceManager: AudioDeviceManager;
+  inputSource: InputSourceKind;
+  onInputSourceChange: (kind: InputSourceKind) => void;
+  testSignal: TestSignalPreset;
+  onTestSignalChange: (preset: TestSignalPreset) => void;
   isDark: boolean;
 }
 
-export function AudioDeviceDisplay({ deviceManager, isDark }: AudioDeviceDisplayProps) {
+export function AudioDeviceDisplay({
+  deviceManager,
+  inputSource,
+  onInputSourceChange,
+  testSignal,
+  onTestSignalChange,
+  isDark
+}: AudioDeviceDisplayProps) {
   const [devices, setDevices] = useState<CurrentDevices>({ input: null, output: null });
+  const [inputDevices, setInputDevices] = useState<AudioDeviceInfo[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -17,10 +35,16 @@ export function AudioDeviceDisplay({ deviceManager, isDark }: AudioDeviceDisplay
       setDevices(deviceManager.getCurrentDevices());
     };
 
+    const updateInputDevices = () => {
+      deviceManager.getInputDevices().then(setInputDevices);
+    };
+
     updateDevices();
+    updateInputDevices();
 
     const unsubscribe = deviceManager.onDeviceChange((newDevices) => {
       setDevices(newDevices);
+      updateInputDevices();
       setError(null);
     });
 
@@ -40,6 +64,31 @@ export function AudioDeviceDisplay({ deviceManager, isDark }: AudioDeviceDisplay
     }
   };
 
+  const handleInputChange = async (deviceId: string) => {
+    setError(null);
+    try {
+      await deviceManager.setInputDevice(deviceId);
+    } catch (err) {
+      setError('Selected microphone is no longer available');
+      console.error(err);
+    }
+  };
+
+  const inputSources: Array<{ value: InputSourceKind; label: string; icon: typeof Mic }> = [
+    { value: 'microphone', label: 'Microphone', icon: Mic },
+    { value: 'display', label: 'Tab / System', icon: MonitorSpeaker },
+    { value: 'midi', label: 'MIDI', icon: Piano },
+    { value: 'generator', label: 'Test Signal', icon: AudioWaveform }
+  ];
+  const unsupportedReasons: Partial<Record<InputSourceKind, string>> = {
+    ...(!DisplayAudioSource.isSupported() && {
+      display: 'Tab and system audio capture is not supported in this browser'
+    }),
+    ...(!MidiSource.isSupported() && {
+      midi: 'Web MIDI is not supported in this browser'
+    })
+  };
+
   const truncateId = (id: string) => {
     if (id === 'default') return 'default';
     return id.length > 16 ? `${id.substring(0, 16)}...` : id;
@@ -90,9 +139,65 @@ export function AudioDeviceDisplay({ deviceManager, isDark }: AudioDeviceDisplay
               Input
             </span>
           </div>
-          {devices.input ? (
+          <div className="grid grid-cols-2 gap-1 mb-2">
+            {inputSources.map(({ value, label, icon: Icon }) => {
+              const disabled = value in unsupportedReasons;
+              return (
+                <button
+                  key={value}
+                  onClick={() => onInputSourceChange(value)}
+                  disabled={disabled}
+                  className={`py-1.5 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1.5 ${
+                    inputSource === value
+                      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                      : isDark ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  title={unsupportedReasons[value]}
+                >
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          {inputSource === 'display' ? (
+            <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              Pick a tab, window or screen when recording starts and enable
+              “Share audio”. Stopping the share stops recording.
+            </div>
+          ) : inputSource === 'generator' ? (
+            <div className={`text-xs ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
+              <TestSignalControls testSignal={testSignal} onTestSignalChange={onTestSignalChange} isDark={isDark} />
+              <div className={`text-[10px] ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                Generated in the browser and played through your speakers.
+              </div>
+            </div>
+          ) : inputSource === 'midi' ? (
+            <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              Play a connected MIDI keyboard or pad. Notes set pitch, velocity sets
+              size, and channel 10 is treated as drums.
+            </div>
+          ) : devices.input ? (
             <div className={`text-xs ${isDark ? 'text-gray-200' : 'text-gray-700'}`}>
-              <div className="font-medium mb-0.5">{devices.input.label}</div>
+              {inputDevices.length > 1 ? (
+                <select
+                  value={devices.input.deviceId}
+                  onChange={(e) => handleInputChange(e.target.value)}
+                  className={`w-full mb-1 px-2 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                    isDark
+                      ? 'bg-gray-700 border-gray-600 focus:border-blue-500'
+                      : 'bg-white border-gray-300 focus:border-blue-500'
+                  } focus:outline-none focus:ring-2 focus:ring-blue-500/20`}
+                >
+                  {inputDevices.map((device) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <div className="font-medium mb-0.5">{devices.input.label}</div>
+              )}
               <div className={`text-[10px] font-mono ${
                 isDark ? 'text-gray-400' : 'text-gray-500'
               }`}>
@@ -1,22 +1,27 @@
 import { useEffect, useRef, useState } from 'react';
 import { Mic, MicOff } from 'lucide-react';
+import { FrameSource } from '../lib/audioProcessor';
 
 interface AudioSensitivityIndicatorProps {
+  frameSource: FrameSource;
   isActive: boolean;
   sensitivity: number;
   isDark: boolean;
 }
 
 export function AudioSensitivityIndicator({
+  frameSource,
   isActive,
   sensitivity,
   isDark
 }: AudioSensitivityIndicatorProps) {
   const [audioLevel, setAudioLevel] = useState(0);
   const [peakLevel, setPeakLevel] = useState(0);
+  const [pitchLabel, setPitchLabel] = useState<string | null>(null);
+  const [bpm, setBpm] = useState(0);
+  const [pan, setPan] = useState(0);
   const smoothedLevelRef = useRef(0);
   const peakDecayRef = useRef(0);
-  const animationFrameRef = useRef<number | null>(null);
 
   useEffect(() => {
     if (!isActive) {
@@ -24,79 +29,40 @@ export function AudioSensitivityIndicator({
       setPeakLevel(0);
       smoothedLevelRef.current = 0;
       peakDecayRef.current = 0;
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      setPitchLabel(null);
+      setBpm(0);
+      setPan(0);
       return;
     }
 
-    let audioContext: AudioContext;
-    let analyser: AnalyserNode;
-    let dataArray: Uint8Array;
-    let source: MediaStreamAudioSourceNode;
-
-    const initAudio = async () => {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioContext = new AudioContext();
-        analyser = audioContext.createAnalyser();
-        source = audioContext.createMediaStreamSource(stream);
-
-        analyser.fftSize = 512;
-        analyser.smoothingTimeConstant = 0.3;
-        source.connect(analyser);
-
-        const bufferLength = analyser.frequencyBinCount;
-        dataArray = new Uint8Array(bufferLength);
-
-        const updateLevel = () => {
-          if (!isActive) return;
-
-          analyser.getByteFrequencyData(dataArray);
-
-          let sum = 0;
-          for (let i = 0; i < bufferLength; i++) {
-            sum += dataArray[i];
-          }
-          const average = sum / bufferLength;
-
-          const normalizedLevel = Math.min((average / 255) * sensitivity * 2, 1);
-
-          const smoothingFactor = 0.15;
-          smoothedLevelRef.current +=
-            (normalizedLevel - smoothedLevelRef.current) * smoothingFactor;
+    const unsubscribe = frameSource.onFrame((frame) => {
+      const normalizedLevel = Math.min(frame.level * sensitivity * 2, 1);
 
-          const finalLevel = Math.max(0, Math.min(1, smoothedLevelRef.current));
-          setAudioLevel(finalLevel);
+      const smoothingFactor = 0.15;
+      smoothedLevelRef.current +=
+        (normalizedLevel - smoothedLevelRef.current) * smoothingFactor;
 
-          if (finalLevel > peakDecayRef.current) {
-            peakDecayRef.current = finalLevel;
-            setPeakLevel(finalLevel);
-          } else {
-            peakDecayRef.current = Math.max(0, peakDecayRef.current - 0.005);
-            setPeakLevel(peakDecayRef.current);
-          }
+      const finalLevel = Math.max(0, Math.min(1, smoothedLevelRef.current));
+      setAudioLevel(finalLevel);
 
-          animationFrameRef.current = requestAnimationFrame(updateLevel);
-        };
-
-        updateLevel();
-      } catch (error) {
-        console.error('Failed to access microphone:', error);
+      if (finalLevel > peakDecayRef.current) {
+        peakDecayRef.current = finalLevel;
+        setPeakLevel(finalLevel);
+      } else {
+        peakDecayRef.current = Math.max(0, peakDecayRef.current - 0.005);
+        setPeakLevel(peakDecayRef.current);
       }
-    };
 
-    initAudio();
+      const { note, cents, pitchHz, pitchConfidence } = frame.features;
+      setPitchLabel(note && pitchConfidence >= 0.8
+        ? `${note} ${cents >= 0 ? '+' : ''}${cents}¢ (${Math.round(pitchHz)} Hz)`
+        : null);
+      setBpm(frame.features.bpm);
+      setPan(frame.features.pan);
+    });
 
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      if (audioContext) {
-        audioContext.close();
-      }
-    };
-  }, [isActive, sensitivity]);
+    return unsubscribe;
+  }, [frameSource, isActive, sensitivity]);
 
   const getBarColor = (level: number): string => {
     if (level < 0.3) {
@@ -211,6 +177,23 @@ export function AudioSensitivityIndicator({
             <span>Level: {displayLevel}</span>
             <span>Peak: {peakLevel.toFixed(2)}</span>
           </div>
+          <div className="mt-1 flex justify-between items-center font-mono">
+            <span>Pitch: {pitchLabel ?? '—'}</span>
+            <span>{bpm > 0 ? `${bpm} BPM` : '— BPM'}</span>
+          </div>
+          <div className="mt-2 flex items-center gap-2 font-mono">
+            <span>L</span>
+            <div className={`relative flex-1 h-1.5 rounded-full ${isDark ? 'bg-gray-700' : 'bg-gray-300'}`}>
+              <div
+                className={`absolute top-1/2 w-2 h-2 rounded-full ${isDark ? 'bg-blue-400' : 'bg-blue-600'} transition-all duration-100`}
+                style={{
+                  left: `${Math.round((pan + 1) * 50)}%`,
+                  transform: 'translate(-50%, -50%)'
+                }}
+              />
+            </div>
+            <span>R</span>
+          </div>
         </div>
       </div>
     </div>
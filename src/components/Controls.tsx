@@ -1,16 +1,36 @@
-import { Mic, MicOff, Trash2, Save, Image, Moon, Sun } from 'lucide-react';
+import { useRef } from 'react';
+import { Mic, MicOff, Trash2, Save, Image, Moon, Sun, FileAudio, Upload, Play, Pause, X, Clapperboard, Library, GraduationCap } from 'lucide-react';
+import { PlaybackState } from '../lib/audioSources';
+import { Placement, SpawnMode } from '../lib/visualRenderer';
+
+export interface AudioFileState extends PlaybackState {
+  name: string;
+}
 
 interface ControlsProps {
   isRecording: boolean;
   onToggleRecording: () => void;
+  audioFile: AudioFileState | null;
+  onAudioFileSelect: (file: File) => void;
+  onAudioFileClear: () => void;
+  onPlayPause: () => void;
+  onSeek: (seconds: number) => void;
+  onRenderOffline: () => void;
   onClear: () => void;
   onSave: () => void;
   onExport: () => void;
   onGallery: () => void;
+  onMappingLibrary: () => void;
+  onTeach: () => void;
+  canTeach: boolean;
   sensitivity: number;
   onSensitivityChange: (value: number) => void;
   opacity: number;
   onOpacityChange: (value: number) => void;
+  spawnMode: SpawnMode;
+  onSpawnModeChange: (value: SpawnMode) => void;
+  placement: Placement;
+  onPlacementChange: (value: Placement) => void;
   fadeEnabled: boolean;
   onFadeEnabledChange: (value: boolean) => void;
   fadeDuration: number;
@@ -22,14 +42,27 @@ interface ControlsProps {
 export function Controls({
   isRecording,
   onToggleRecording,
+  audioFile,
+  onAudioFileSelect,
+  onAudioFileClear,
+  onPlayPause,
+  onSeek,
+  onRenderOffline,
   onClear,
   onSave,
   onExport,
   onGallery,
+  onMappingLibrary,
+  onTeach,
+  canTeach,
   sensitivity,
   onSensitivityChange,
   opacity,
   onOpacityChange,
+  spawnMode,
+  onSpawnModeChange,
+  placement,
+  onPlacementChange,
   fadeEnabled,
   onFadeEnabledChange,
   fadeDuration,
@@ -37,6 +70,25 @@ export function Controls({
   isDark,
   onToggleTheme
 }: ControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const spawnModes: Array<{ value: SpawnMode; label: string }> = [
+    { value: 'continuous', label: 'Continuous' },
+    { value: 'onset', label: 'Onsets' },
+    { value: 'beat', label: 'Beats' }
+  ];
+
+  const placements: Array<{ value: Placement; label: string }> = [
+    { value: 'random', label: 'Random' },
+    { value: 'spatial', label: 'Stereo & Pitch' }
+  ];
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.floor(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+  };
+
   return (
     <div className={`rounded-2xl shadow-xl p-6 ${
       isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
@@ -70,6 +122,91 @@ export function Controls({
           {isRecording ? 'Stop Recording' : 'Start Recording'}
         </button>
 
+        <div className={`rounded-xl p-3 ${
+          isDark ? 'bg-gray-700/50' : 'bg-gray-100'
+        }`}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,.wav,.mp3,.ogg"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onAudioFileSelect(file);
+              e.target.value = '';
+            }}
+          />
+
+          {audioFile ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <FileAudio className="w-4 h-4 flex-shrink-0 text-cyan-400" />
+                <span className="flex-1 text-sm font-medium truncate" title={audioFile.name}>
+                  {audioFile.name}
+                </span>
+                <button
+                  onClick={onAudioFileClear}
+                  className={`p-1 rounded-lg transition-colors ${
+                    isDark ? 'hover:bg-gray-600' : 'hover:bg-gray-200'
+                  }`}
+                  title="Use microphone instead"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={onPlayPause}
+                  className="p-2 rounded-full bg-cyan-500 hover:bg-cyan-600 text-white transition-colors"
+                  title={audioFile.isPlaying ? 'Pause' : 'Play'}
+                >
+                  {audioFile.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <input
+                  type="range"
+                  min="0"
+                  max={audioFile.duration || 0}
+                  step="0.1"
+                  value={audioFile.currentTime}
+                  onChange={(e) => onSeek(parseFloat(e.target.value))}
+                  disabled={!audioFile.duration}
+                  className="flex-1 accent-cyan-500"
+                />
+              </div>
+
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{formatTime(audioFile.currentTime)}</span>
+                <span>{formatTime(audioFile.duration)}</span>
+              </div>
+
+              <button
+                onClick={onRenderOffline}
+                disabled={isRecording}
+                className={`w-full py-2 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${
+                  isDark ? 'bg-gray-600 hover:bg-gray-500 text-gray-200' : 'bg-white hover:bg-gray-200 text-gray-700'
+                } ${isRecording ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title={isRecording ? 'Stop recording to render the full track' : 'Render the whole track to a high-resolution artwork'}
+              >
+                <Clapperboard className="w-3.5 h-3.5" />
+                Render Full Track…
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className={`w-full py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 ${
+                isDark
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+              }`}
+            >
+              <Upload className="w-4 h-4" />
+              Paint from Audio File
+            </button>
+          )}
+        </div>
+
         <div className="space-y-3">
           <div>
             <label className="block text-sm font-medium mb-2">
@@ -101,6 +238,53 @@ export function Controls({
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-2">Spawn Shapes On</label>
+            <div className="grid grid-cols-3 gap-2">
+              {spawnModes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onSpawnModeChange(value)}
+                  className={`py-2 rounded-lg text-xs font-medium transition-all ${
+                    spawnMode === value
+                      ? isDark
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-blue-500 text-white'
+                      : isDark
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Shape Placement</label>
+            <div className="grid grid-cols-2 gap-2">
+              {placements.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onPlacementChange(value)}
+                  className={`py-2 rounded-lg text-xs font-medium transition-all ${
+                    placement === value
+                      ? isDark
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-blue-500 text-white'
+                      : isDark
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  title={value === 'spatial' ? 'Left/right follows stereo position, height follows pitch' : undefined}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="pt-2 border-t border-gray-700/50">
             <div className="flex items-center justify-between mb-3">
               <label className="text-sm font-medium">Fade Away</label>
@@ -183,6 +367,32 @@ export function Controls({
           <Image className="w-4 h-4" />
           Gallery
         </button>
+
+        <button
+          onClick={onMappingLibrary}
+          className={`w-full py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+            isDark
+              ? 'bg-gray-700 hover:bg-gray-600 text-white'
+              : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+          }`}
+        >
+          <Library className="w-4 h-4" />
+          Mapping Library
+        </button>
+
+        <button
+          onClick={onTeach}
+          disabled={!canTeach}
+          className={`w-full py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+            isDark
+              ? 'bg-gray-700 hover:bg-gray-600 text-white'
+              : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+          } ${!canTeach ? 'opacity-50 cursor-not-allowed' : ''}`}
+          title={canTeach ? undefined : 'Start recording to teach a sound'}
+        >
+          <GraduationCap className="w-4 h-4" />
+          Teach a Sound
+        </button>
       </div>
     </div>
   );
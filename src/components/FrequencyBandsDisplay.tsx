@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { AudioWaveform } from 'lucide-react';
+import { FrameSource } from '../lib/audioProcessor';
+import { BAND_COUNTS, BAND_SCALES, BandLayout } from '../lib/frequencyBands';
+
+interface FrequencyBandsDisplayProps {
+  frameSource: FrameSource;
+  layout: BandLayout;
+  onLayoutChange: (layout: BandLayout) => void;
+  isActive: boolean;
+  isDark: boolean;
+}
+
+export function FrequencyBandsDisplay({
+  frameSource,
+  layout,
+  onLayoutChange,
+  isActive,
+  isDark
+}: FrequencyBandsDisplayProps) {
+  const [levels, setLevels] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (!isActive) {
+      setLevels([]);
+      return;
+    }
+
+    return frameSource.onFrame((frame) => {
+      setLevels(frame.features.bands);
+    });
+  }, [frameSource, isActive]);
+
+  const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+  const bands = frameSource.getBands();
+  const bars = levels.length === layout.count ? levels : new Array(layout.count).fill(0);
+
+  const optionClass = (selected: boolean) => `px-2 py-1 rounded-md text-[10px] font-medium uppercase transition-colors ${
+    selected
+      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+      : isDark ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div className={`rounded-xl p-4 ${
+      isDark ? 'bg-gray-800/50' : 'bg-gray-100/50'
+    }`}>
+      <div className="flex items-center gap-2 mb-3">
+        <AudioWaveform className={`w-4 h-4 ${isDark ? 'text-cyan-400' : 'text-cyan-600'}`} />
+        <h3 className={`text-sm font-semibold ${
+          isDark ? 'text-gray-200' : 'text-gray-700'
+        }`}>
+          Frequency Bands
+        </h3>
+      </div>
+
+      <div className={`h-16 flex items-end gap-px rounded-lg p-1 ${
+        isDark ? 'bg-gray-900/60' : 'bg-white'
+      }`}>
+        {bars.map((level, index) => (
+          <div
+            key={index}
+            className="flex-1 rounded-sm bg-gradient-to-t from-blue-500 to-cyan-400 transition-all duration-75"
+            style={{ height: `${Math.max(2, (level / 255) * 100)}%` }}
+            title={bands[index] ? `${formatHz(bands[index].minHz)}–${formatHz(bands[index].maxHz)} Hz` : undefined}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-3 gap-2">
+        <div className="flex gap-1">
+          {BAND_COUNTS.map((count) => (
+            <button
+              key={count}
+              onClick={() => onLayoutChange({ ...layout, count })}
+              className={optionClass(layout.count === count)}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {BAND_SCALES.map((scale) => (
+            <button
+              key={scale}
+              onClick={() => onLayoutChange({ ...layout, scale })}
+              className={optionClass(layout.scale === scale)}
+            >
+              {scale}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, Lock, Unlock, Trash2, Pin, Upload, Download } from 'lucide-react';
+import { SoundMapping } from '../lib/storage';
+import { ANIMATION_STYLES, MappingEdit, SHAPE_TYPES, VisualMapper } from '../lib/visualMapper';
+import { toHexColor } from '../lib/colorUtils';
+import { getMappingStrategy } from '../lib/mappingStrategies';
+import {
+  ConflictResolution,
+  ImportMode,
+  MappingPack,
+  createMappingPack,
+  downloadMappingPack,
+  findPackConflicts,
+  parseMappingPack
+} from '../lib/mappingPacks';
+import { MappingPreview } from './MappingPreview';
+
+interface MappingLibraryProps {
+  visualMapper: VisualMapper;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+type SortOrder = 'hits' | 'newest';
+
+interface PendingImport {
+  pack: MappingPack;
+  conflicts: number;
+}
+
+const VISUAL_TYPES = Object.keys(SHAPE_TYPES) as SoundMapping['visualType'][];
+
+export function MappingLibrary({ visualMapper, onClose, isDark }: MappingLibraryProps) {
+  const [mappings, setMappings] = useState<SoundMapping[]>(() => visualMapper.getMappings());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('hits');
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [onConflict, setOnConflict] = useState<ConflictResolution>('keep-existing');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return visualMapper.onMappingsChange(setMappings);
+  }, [visualMapper]);
+
+  const sorted = [...mappings].sort((a, b) =>
+    sortOrder === 'hits'
+      ? (b.hitCount ?? 0) - (a.hitCount ?? 0)
+      : b.createdAt.localeCompare(a.createdAt)
+  );
+  const selected = mappings.find(mapping => mapping.id === selectedId) ?? null;
+
+  const update = (changes: MappingEdit) => {
+    if (selected) visualMapper.updateMapping(selected.id, changes);
+  };
+
+  const handleVisualTypeChange = (visualType: SoundMapping['visualType']) => {
+    const shapes = SHAPE_TYPES[visualType];
+    update({
+      visualType,
+      shapeType: selected && shapes.includes(selected.shapeType) ? selected.shapeType : shapes[0]
+    });
+  };
+
+  const handleDelete = (mapping: SoundMapping) => {
+    if (confirm('Delete this mapping? The sound will get a new visual next time it is heard.')) {
+      visualMapper.deleteMapping(mapping.id);
+      if (selectedId === mapping.id) setSelectedId(null);
+    }
+  };
+
+  const handleClearUnlocked = () => {
+    if (confirm('Delete all mappings that are not locked?')) {
+      visualMapper.clearCache();
+      setSelectedId(null);
+    }
+  };
+
+  const toggleChecked = (id: string) => {
+    const next = new Set(checkedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCheckedIds(next);
+  };
+
+  const handleExport = () => {
+    const chosen = checkedIds.size > 0 ? mappings.filter(mapping => checkedIds.has(mapping.id)) : mappings;
+    const name = prompt('Name this mapping pack', 'My mappings');
+    if (name !== null) downloadMappingPack(createMappingPack(chosen, name || undefined));
+  };
+
+  const handleImportFile = async (file: File) => {
+    setImportMessage(null);
+    const { pack, errors } = parseMappingPack(await file.text());
+    setImportErrors(errors);
+    setPendingImport(pack ? { pack, conflicts: findPackConflicts(mappings, pack).length } : null);
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    if (importMode === 'replace' && !confirm('Replace the whole library with this pack? Your current mappings will be deleted, except locked ones.')) {
+      return;
+    }
+
+    const { added, replaced, skipped } = visualMapper.importMappings(pendingImport.pack.mappings, {
+      mode: importMode,
+      onConflict
+    });
+    setImportMessage(`Imported ${added} new, ${replaced} replaced, ${skipped} kept as they were.`);
+    setPendingImport(null);
+    setCheckedIds(new Set());
+    setSelectedId(null);
+  };
+
+  const optionClassName = (active: boolean) => `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+    active
+      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+      : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+  }`;
+
+  const fieldClassName = `w-full px-3 py-2 rounded-lg border text-sm transition-colors ${
+    isDark
+      ? 'bg-gray-700 border-gray-600 focus:border-blue-500'
+      : 'bg-white border-gray-300 focus:border-blue-500'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500/20`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`relative w-full max-w-5xl h-[80vh] rounded-2xl shadow-2xl ${
+        isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      } p-6 flex flex-col`}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold">Mapping Library</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+              className={`${fieldClassName} w-auto`}
+            >
+              <option value="hits">Most used</option>
+              <option value="newest">Newest</option>
+            </select>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${
+                isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={mappings.length === 0}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${
+                isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+              } ${mappings.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <Download className="w-4 h-4" />
+              {checkedIds.size > 0 ? `Export ${checkedIds.size}` : 'Export All'}
+            </button>
+            <button
+              onClick={handleClearUnlocked}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              Clear Unlocked
+            </button>
+            <button
+              onClick={onClose}
+              className={`p-2 rounded-lg transition-colors ${
+                isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+              }`}
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {pendingImport && (
+          <div className={`mb-4 p-4 rounded-xl text-sm flex flex-wrap items-center gap-3 ${
+            isDark ? 'bg-gray-700/50' : 'bg-gray-100'
+          }`}>
+            <div className="flex-1 min-w-[12rem]">
+              <div className="font-medium">{pendingImport.pack.name ?? 'Mapping pack'}</div>
+              <div className="text-xs opacity-70">
+                {pendingImport.pack.mappings.length} mappings · {pendingImport.conflicts} already in your library
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => setImportMode('merge')} className={optionClassName(importMode === 'merge')}>
+                Merge
+              </button>
+              <button onClick={() => setImportMode('replace')} className={optionClassName(importMode === 'replace')}>
+                Replace All
+              </button>
+            </div>
+            {importMode === 'merge' && pendingImport.conflicts > 0 && (
+              <div className="flex gap-1">
+                <button onClick={() => setOnConflict('keep-existing')} className={optionClassName(onConflict === 'keep-existing')}>
+                  Keep Mine
+                </button>
+                <button
+                  onClick={() => setOnConflict('use-imported')}
+                  className={optionClassName(onConflict === 'use-imported')}
+                  title="Locked mappings are always kept"
+                >
+                  Use Imported
+                </button>
+              </div>
+            )}
+            <button onClick={() => setPendingImport(null)} className={optionClassName(false)}>
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirmImport}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white transition-all"
+            >
+              Import
+            </button>
+          </div>
+        )}
+
+        {(importMessage || importErrors.length > 0) && (
+          <div className={`mb-4 p-3 rounded-lg text-xs ${
+            importErrors.length > 0
+              ? isDark ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-red-50 text-red-600 border border-red-200'
+              : isDark ? 'bg-green-500/10 text-green-400 border border-green-500/20' : 'bg-green-50 text-green-700 border border-green-200'
+          }`}>
+            {importErrors.length > 0 ? (
+              <ul className="font-mono space-y-1 max-h-24 overflow-y-auto">
+                {importErrors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            ) : importMessage}
+          </div>
+        )}
+
+        <div className="flex-1 flex gap-6 min-h-0">
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+            {sorted.length === 0 ? (
+              <div className="flex items-center justify-center h-full">
+                <p className="text-lg opacity-60">No mappings yet. Make some sounds!</p>
+              </div>
+            ) : (
+              sorted.map((mapping) => (
+                <div
+                  key={mapping.id}
+                  onClick={() => setSelectedId(mapping.id)}
+                  className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+                    mapping.id === selectedId
+                      ? isDark ? 'bg-blue-600/30' : 'bg-blue-100'
+                      : isDark ? 'bg-gray-700/50 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.has(mapping.id)}
+                    onChange={() => toggleChecked(mapping.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="accent-blue-500"
+                    aria-label="Include in export"
+                  />
+                  <MappingPreview mapping={mapping} size={48} />
+                  <div className="flex gap-1">
+                    <span className="w-4 h-4 rounded" style={{ background: mapping.colorPrimary }} />
+                    <span className="w-4 h-4 rounded" style={{ background: mapping.colorSecondary }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate flex items-center gap-1">
+                      {mapping.pinned && <Pin className="w-3 h-3 text-cyan-400 flex-shrink-0" aria-label="Taught" />}
+                      {mapping.visualType} · {mapping.shapeType} · {mapping.animationStyle}
+                    </div>
+                    <div className="text-xs font-mono opacity-60 truncate">
+                      {mapping.frequencyRange} · {mapping.soundSignature}
+                    </div>
+                  </div>
+                  <div className="text-xs font-mono opacity-70 w-16 text-right">
+                    {mapping.hitCount ?? 0} hits
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      visualMapper.updateMapping(mapping.id, { locked: !mapping.locked });
+                    }}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      isDark ? 'hover:bg-gray-600' : 'hover:bg-gray-300'
+                    } ${mapping.locked ? 'text-amber-400' : 'opacity-50'}`}
+                    title={mapping.locked ? 'Unlock' : 'Lock as favourite'}
+                  >
+                    {mapping.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(mapping);
+                    }}
+                    disabled={mapping.locked}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      isDark ? 'hover:bg-gray-600' : 'hover:bg-gray-300'
+                    } ${mapping.locked ? 'opacity-30 cursor-not-allowed' : ''}`}
+                    title={mapping.locked ? 'Unlock to delete' : 'Delete'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className={`w-72 flex-shrink-0 rounded-xl p-4 overflow-y-auto ${
+            isDark ? 'bg-gray-700/50' : 'bg-gray-100'
+          }`}>
+            {selected ? (
+              <div className="space-y-4 text-sm">
+                <div className="flex justify-center">
+                  <MappingPreview mapping={selected} size={160} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="block font-medium mb-1">Primary</span>
+                    <input
+                      type="color"
+                      value={toHexColor(selected.colorPrimary)}
+                      onChange={(e) => update({ colorPrimary: e.target.value })}
+                      className="w-full h-9 rounded cursor-pointer"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block font-medium mb-1">Secondary</span>
+                    <input
+                      type="color"
+                      value={toHexColor(selected.colorSecondary)}
+                      onChange={(e) => update({ colorSecondary: e.target.value })}
+                      className="w-full h-9 rounded cursor-pointer"
+                    />
+                  </label>
+                </div>
+
+                <label className="block">
+                  <span className="block font-medium mb-1">Visual Type</span>
+                  <select
+                    value={selected.visualType}
+                    onChange={(e) => handleVisualTypeChange(e.target.value as SoundMapping['visualType'])}
+                    className={fieldClassName}
+                  >
+                    {VISUAL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                </label>
+
+                <label className="block">
+                  <span className="block font-medium mb-1">Shape</span>
+                  <select
+                    value={selected.shapeType}
+                    onChange={(e) => update({ shapeType: e.target.value })}
+                    className={fieldClassName}
+                  >
+                    {SHAPE_TYPES[selected.visualType].map(shape => <option key={shape} value={shape}>{shape}</option>)}
+                  </select>
+                </label>
+
+                <label className="block">
+                  <span className="block font-medium mb-1">Animation</span>
+                  <select
+                    value={selected.animationStyle}
+                    onChange={(e) => update({ animationStyle: e.target.value })}
+                    className={fieldClassName}
+                  >
+                    {ANIMATION_STYLES.map(style => <option key={style} value={style}>{style}</option>)}
+                  </select>
+                </label>
+
+                <label className="block">
+                  <span className="block font-medium mb-1">Size: {Math.round(selected.sizeBase)}</span>
+                  <input
+                    type="range"
+                    min="10"
+                    max="100"
+                    value={selected.sizeBase}
+                    onChange={(e) => update({ sizeBase: parseFloat(e.target.value) })}
+                    className="w-full accent-blue-500"
+                  />
+                </label>
+
+                <label className="block">
+                  <span className="block font-medium mb-1">Opacity: {selected.opacityBase.toFixed(2)}</span>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={selected.opacityBase}
+                    onChange={(e) => update({ opacityBase: parseFloat(e.target.value) })}
+                    className="w-full accent-blue-500"
+                  />
+                </label>
+
+                <div className="text-xs opacity-60 space-y-0.5">
+                  <div>Fired {selected.hitCount ?? 0} times</div>
+                  {selected.clusterSize !== undefined && <div>Sound family of {selected.clusterSize} sounds</div>}
+                  {selected.lastHitAt && <div>Last used {new Date(selected.lastHitAt).toLocaleString()}</div>}
+                  <div>Created {new Date(selected.createdAt).toLocaleString()}</div>
+                  {selected.strategy && (
+                    <div>Generated by {getMappingStrategy(selected.strategy)?.name ?? selected.strategy}</div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full text-sm opacity-60 text-center">
+                Select a mapping to edit it
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
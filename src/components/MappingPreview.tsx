@@ -0,0 +1,20 @@
+import { useEffect, useRef } from 'react';
+import { SoundMapping } from '../lib/storage';
+import { VisualRenderer } from '../lib/visualRenderer';
+
+interface MappingPreviewProps {
+  mapping: SoundMapping;
+  size: number;
+}
+
+export function MappingPreview({ mapping, size }: MappingPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      new VisualRenderer(canvasRef.current).renderPreview(mapping);
+    }
+  }, [mapping]);
+
+  return <canvas ref={canvasRef} width={size} height={size} className="flex-shrink-0" />;
+}
@@ -0,0 +1,137 @@
+import { useRef, useState } from 'react';
+import { X, Upload, Download, ScrollText } from 'lucide-react';
+import { VisualMapper } from '../lib/visualMapper';
+import { EXAMPLE_RULE_SET, downloadRuleSet, parseRuleSet, serializeRuleSet } from '../lib/mappingRules';
+
+interface MappingRulesDialogProps {
+  visualMapper: VisualMapper;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+export function MappingRulesDialog({ visualMapper, onClose, isDark }: MappingRulesDialogProps) {
+  const [text, setText] = useState(() => serializeRuleSet(visualMapper.getRuleSet() ?? EXAMPLE_RULE_SET));
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasRules = visualMapper.getRuleSet() !== null;
+
+  const handleImport = async (file: File) => {
+    const contents = await file.text();
+    setText(contents);
+    setErrors(parseRuleSet(contents).errors);
+  };
+
+  const handleExport = () => {
+    const { ruleSet, errors } = parseRuleSet(text);
+    setErrors(errors);
+    if (ruleSet) downloadRuleSet(ruleSet);
+  };
+
+  const handleApply = () => {
+    const { ruleSet, errors } = parseRuleSet(text);
+    setErrors(errors);
+    if (ruleSet) {
+      visualMapper.setRuleSet(ruleSet);
+      onClose();
+    }
+  };
+
+  const handleRemove = () => {
+    visualMapper.setRuleSet(null);
+    onClose();
+  };
+
+  const secondaryButtonClassName = `px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${
+    isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`relative w-full max-w-2xl rounded-2xl shadow-2xl ${
+        isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      } p-6`}>
+        <button
+          onClick={onClose}
+          className={`absolute top-4 right-4 p-2 rounded-lg transition-colors ${
+            isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-2xl font-bold mb-2">Mapping Rules</h2>
+        <p className="text-sm opacity-70 mb-4">
+          Rules are checked in order on every frame, after taught sounds. The first match decides the look
+          for as long as it keeps matching; frames no rule matches use the library as usual.
+        </p>
+
+        <div className="flex gap-2 mb-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button onClick={handleExport} className={secondaryButtonClassName}>
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          {hasRules && (
+            <button onClick={handleRemove} className={`${secondaryButtonClassName} ml-auto`}>
+              Remove Rules
+            </button>
+          )}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          spellCheck={false}
+          className={`w-full h-72 px-3 py-2 rounded-lg border font-mono text-xs transition-colors ${
+            isDark
+              ? 'bg-gray-900 border-gray-600 focus:border-blue-500'
+              : 'bg-gray-50 border-gray-300 focus:border-blue-500'
+          } focus:outline-none focus:ring-2 focus:ring-blue-500/20`}
+          aria-label="Rule set JSON"
+        />
+
+        {errors.length > 0 && (
+          <ul className={`mt-3 p-3 rounded-lg text-xs font-mono space-y-1 max-h-32 overflow-y-auto ${
+            isDark ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-red-50 text-red-600 border border-red-200'
+          }`}>
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className={`flex-1 px-6 py-3 rounded-lg font-medium transition-colors ${
+              isDark
+                ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="flex-1 px-6 py-3 rounded-lg font-medium bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white transition-all flex items-center justify-center gap-2"
+          >
+            <ScrollText className="w-4 h-4" />
+            Apply Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { X, Clapperboard } from 'lucide-react';
+import { OFFLINE_FRAME_RATES, OfflineRenderProgress } from '../lib/offlineRenderer';
+
+export interface OfflineRenderRequest {
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+interface OfflineRenderDialogProps {
+  fileName: string;
+  progress: OfflineRenderProgress | null;
+  onRender: (request: OfflineRenderRequest) => void;
+  onCancel: () => void;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+const SIZE_PRESETS = [
+  { label: 'A4 300 dpi', width: 3508, height: 2480 },
+  { label: '4000 × 3000', width: 4000, height: 3000 },
+  { label: '8000 × 6000', width: 8000, height: 6000 }
+];
+
+const MAX_DIMENSION = 16000;
+
+export function OfflineRenderDialog({
+  fileName,
+  progress,
+  onRender,
+  onCancel,
+  onClose,
+  isDark
+}: OfflineRenderDialogProps) {
+  const [request, setRequest] = useState<OfflineRenderRequest>({
+    width: SIZE_PRESETS[1].width,
+    height: SIZE_PRESETS[1].height,
+    frameRate: 60
+  });
+
+  const isRendering = progress !== null;
+  const percent = progress && progress.totalFrames > 0
+    ? Math.round((progress.frame / progress.totalFrames) * 100)
+    : 0;
+
+  const setDimension = (key: 'width' | 'height', value: string) => {
+    const parsed = parseInt(value, 10);
+    const clamped = Number.isFinite(parsed) ? Math.max(1, Math.min(parsed, MAX_DIMENSION)) : 1;
+    setRequest({ ...request, [key]: clamped });
+  };
+
+  const inputClassName = `w-full px-4 py-2 rounded-lg border transition-colors ${
+    isDark
+      ? 'bg-gray-700 border-gray-600 focus:border-blue-500'
+      : 'bg-white border-gray-300 focus:border-blue-500'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500/20`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`relative w-full max-w-md rounded-2xl shadow-2xl ${
+        isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      } p-6`}>
+        <button
+          onClick={isRendering ? onCancel : onClose}
+          className={`absolute top-4 right-4 p-2 rounded-lg transition-colors ${
+            isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-2xl font-bold mb-2">Render Full Track</h2>
+        <p className="text-sm opacity-70 mb-6 truncate">{fileName}</p>
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium mb-2">Canvas Size</label>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {SIZE_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => setRequest({ ...request, width: preset.width, height: preset.height })}
+                  disabled={isRendering}
+                  className={`px-2 py-2 rounded-lg text-xs font-medium transition-all ${
+                    request.width === preset.width && request.height === preset.height
+                      ? isDark
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-blue-500 text-white'
+                      : isDark
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="number"
+                min="1"
+                max={MAX_DIMENSION}
+                value={request.width}
+                onChange={(e) => setDimension('width', e.target.value)}
+                disabled={isRendering}
+                className={inputClassName}
+                aria-label="Width in pixels"
+              />
+              <input
+                type="number"
+                min="1"
+                max={MAX_DIMENSION}
+                value={request.height}
+                onChange={(e) => setDimension('height', e.target.value)}
+                disabled={isRendering}
+                className={inputClassName}
+                aria-label="Height in pixels"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Frame Rate</label>
+            <div className="grid grid-cols-2 gap-3">
+              {OFFLINE_FRAME_RATES.map((frameRate) => (
+                <button
+                  key={frameRate}
+                  onClick={() => setRequest({ ...request, frameRate })}
+                  disabled={isRendering}
+                  className={`px-4 py-3 rounded-lg font-medium transition-all ${
+                    request.frameRate === frameRate
+                      ? isDark
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-blue-500 text-white'
+                      : isDark
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {frameRate} fps
+                </button>
+              ))}
+            </div>
+            <p className="text-xs mt-2 opacity-70">
+              Higher frame rates paint more shapes and take longer to render
+            </p>
+          </div>
+
+          {isRendering && (
+            <div>
+              <div className="flex justify-between text-sm mb-2">
+                <span>Rendering…</span>
+                <span className="font-mono">{percent}%</span>
+              </div>
+              <div className={`h-2 rounded-full overflow-hidden ${isDark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-cyan-500 transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={isRendering ? onCancel : onClose}
+            className={`flex-1 px-6 py-3 rounded-lg font-medium transition-colors ${
+              isDark
+                ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onRender(request)}
+            disabled={isRendering}
+            className={`flex-1 px-6 py-3 rounded-lg font-medium bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white transition-all flex items-center justify-center gap-2 ${
+              isRendering ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Clapperboard className="w-4 h-4" />
+            Render
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
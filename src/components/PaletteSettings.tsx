@@ -0,0 +1,239 @@
+import { useRef, useState } from 'react';
+import { Palette, ChevronDown, Plus, X, ImagePlus } from 'lucide-react';
+import { PALETTE_KINDS, PaletteKind, PaletteTheme, loadImagePalette } from '../lib/palettes';
+import { ColorMode, pitchClassHue } from '../lib/pitchColors';
+
+interface PaletteSettingsProps {
+  palette: PaletteTheme;
+  onPaletteChange: (palette: PaletteTheme) => void;
+  colorMode: ColorMode;
+  onColorModeChange: (mode: ColorMode) => void;
+  isDark: boolean;
+}
+
+const DEFAULT_SWATCHES = ['#264653', '#2a9d8f', '#e9c46a', '#f4a261', '#e76f51'];
+const MAX_SWATCHES = 12;
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const COLOR_MODES: { mode: ColorMode; label: string }[] = [
+  { mode: 'signature', label: 'Per Sound' },
+  { mode: 'pitch', label: 'By Pitch' }
+];
+
+export function PaletteSettings({
+  palette,
+  onPaletteChange,
+  colorMode,
+  onColorModeChange,
+  isDark
+}: PaletteSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hue, setHue] = useState('hue' in palette ? palette.hue : 200);
+  const [swatches, setSwatches] = useState(palette.kind === 'swatches' ? palette.colors : DEFAULT_SWATCHES);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const buildPalette = (kind: PaletteKind, nextHue = hue, nextSwatches = swatches): PaletteTheme => {
+    switch (kind) {
+      case 'monochrome':
+      case 'analogous':
+      case 'triadic':
+        return { kind, hue: nextHue };
+      case 'swatches':
+        return { kind, colors: nextSwatches };
+      default:
+        return { kind };
+    }
+  };
+
+  const handleHueChange = (value: number) => {
+    setHue(value);
+    onPaletteChange(buildPalette(palette.kind, value));
+  };
+
+  const handleSwatchesChange = (colors: string[]) => {
+    setSwatches(colors);
+    onPaletteChange(buildPalette('swatches', hue, colors));
+  };
+
+  const handleImageSelect = async (file: File) => {
+    setImageError(null);
+    try {
+      const colors = await loadImagePalette(file);
+      if (colors.length === 0) {
+        setImageError('No colors could be read from that image.');
+        return;
+      }
+      handleSwatchesChange(colors);
+    } catch (err) {
+      setImageError('That file could not be opened as an image.');
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className={`rounded-xl p-4 ${
+      isDark ? 'bg-gray-800/50' : 'bg-gray-100/50'
+    }`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between"
+      >
+        <div className="flex items-center gap-2">
+          <Palette className={`w-4 h-4 ${isDark ? 'text-gray-300' : 'text-gray-600'}`} />
+          <h3 className={`text-sm font-semibold ${
+            isDark ? 'text-gray-200' : 'text-gray-700'
+          }`}>
+            Color Palette
+          </h3>
+        </div>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''} ${
+          isDark ? 'text-gray-400' : 'text-gray-500'
+        }`} />
+      </button>
+
+      {isOpen && (
+        <div className={`mt-4 space-y-4 text-xs ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          <div>
+            <label className="block font-medium mb-2">Color Source</label>
+            <div className="grid grid-cols-2 gap-1">
+              {COLOR_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => onColorModeChange(mode)}
+                  className={`py-1.5 rounded-md transition-colors ${
+                    colorMode === mode
+                      ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                      : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {colorMode === 'pitch' && (
+            <div>
+              <div className="grid grid-cols-12 gap-0.5">
+                {PITCH_CLASSES.map((name, pitchClass) => (
+                  <div key={name} className="text-center">
+                    <div
+                      className="h-4 rounded-sm"
+                      style={{ background: `hsl(${pitchClassHue(pitchClass)}, 85%, 55%)` }}
+                    />
+                    <span className="font-mono text-[9px] opacity-70">{name}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 opacity-70">
+                Hue follows the note, lightness the octave and saturation how bright the sound is.
+              </p>
+            </div>
+          )}
+
+          {colorMode === 'signature' && (
+            <div>
+              <label className="block font-medium mb-2">Theme</label>
+              <div className="grid grid-cols-4 gap-1">
+                {PALETTE_KINDS.map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    onClick={() => onPaletteChange(buildPalette(kind))}
+                    className={`py-1.5 rounded-md transition-colors ${
+                      palette.kind === kind
+                        ? isDark ? 'bg-blue-600 text-white' : 'bg-blue-500 text-white'
+                        : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 opacity-70">
+                Themes recolor generated mappings for this session. Locked and taught mappings keep their colors.
+              </p>
+            </div>
+          )}
+
+          {colorMode === 'signature' && 'hue' in palette && (
+            <div>
+              <label className="block font-medium mb-2">Base Hue: {hue}°</label>
+              <input
+                type="range"
+                min="0"
+                max="359"
+                value={hue}
+                onChange={(e) => handleHueChange(parseInt(e.target.value, 10))}
+                className="w-full accent-blue-500"
+                style={{ accentColor: `hsl(${hue}, 80%, 55%)` }}
+              />
+            </div>
+          )}
+
+          {colorMode === 'signature' && palette.kind === 'swatches' && (
+            <div>
+              <label className="block font-medium mb-2">Swatches</label>
+              <div className="grid grid-cols-6 gap-1.5">
+                {swatches.map((color, index) => (
+                  <div key={index} className="relative group">
+                    <input
+                      type="color"
+                      value={color}
+                      onChange={(e) => handleSwatchesChange(swatches.map((c, i) => (i === index ? e.target.value : c)))}
+                      className="w-full h-7 rounded cursor-pointer"
+                      aria-label={`Swatch ${index + 1}`}
+                    />
+                    {swatches.length > 1 && (
+                      <button
+                        onClick={() => handleSwatchesChange(swatches.filter((_, i) => i !== index))}
+                        className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 rounded-full bg-gray-900 text-white items-center justify-center"
+                        title="Remove swatch"
+                      >
+                        <X className="w-2.5 h-2.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {swatches.length < MAX_SWATCHES && (
+                  <button
+                    onClick={() => handleSwatchesChange([...swatches, swatches[swatches.length - 1] ?? '#ffffff'])}
+                    className={`h-7 rounded flex items-center justify-center transition-colors ${
+                      isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                    }`}
+                    title="Add swatch"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept="image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImageSelect(file);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <button
+                onClick={() => imageInputRef.current?.click()}
+                className={`w-full mt-3 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+                  isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+              >
+                <ImagePlus className="w-3.5 h-3.5" />
+                Extract From Image
+              </button>
+              {imageError && (
+                <p className={`mt-2 ${isDark ? 'text-red-400' : 'text-red-600'}`}>{imageError}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
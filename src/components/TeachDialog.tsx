@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react';
+import { X, Mic, GraduationCap } from 'lucide-react';
+import { AudioProcessor, AudioFeatures } from '../lib/audioProcessor';
+import { SoundMapping } from '../lib/storage';
+import { ANIMATION_STYLES, SHAPE_TYPES, TaughtLook, VisualMapper } from '../lib/visualMapper';
+import { MappingPreview } from './MappingPreview';
+
+interface TeachDialogProps {
+  audioProcessor: AudioProcessor;
+  visualMapper: VisualMapper;
+  onClose: () => void;
+  isDark: boolean;
+}
+
+const SAMPLE_DURATION_MS = 1500;
+
+const PALETTES = [
+  { name: 'Fire', colors: ['#ef4444', '#f97316'] },
+  { name: 'Ocean', colors: ['#3b82f6', '#06b6d4'] },
+  { name: 'Forest', colors: ['#22c55e', '#84cc16'] },
+  { name: 'Dusk', colors: ['#a855f7', '#ec4899'] },
+  { name: 'Gold', colors: ['#eab308', '#fde68a'] },
+  { name: 'Mono', colors: ['#f5f5f5', '#6b7280'] }
+];
+
+const VISUAL_TYPES = Object.keys(SHAPE_TYPES) as SoundMapping['visualType'][];
+
+export function TeachDialog({ audioProcessor, visualMapper, onClose, isDark }: TeachDialogProps) {
+  const [samples, setSamples] = useState<AudioFeatures[] | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [look, setLook] = useState<TaughtLook>({
+    visualType: 'geometric',
+    shapeType: 'star',
+    colorPrimary: PALETTES[0].colors[0],
+    colorSecondary: PALETTES[0].colors[1],
+    animationStyle: 'pulse'
+  });
+
+  const loudest = useMemo(() => {
+    if (!samples || samples.length === 0) return null;
+    return samples.reduce((best, frame) => (frame.amplitude > best.amplitude ? frame : best));
+  }, [samples]);
+
+  const previewMapping: SoundMapping = {
+    id: 'preview',
+    soundSignature: 'preview',
+    frequencyRange: '',
+    ...look,
+    sizeBase: 40,
+    opacityBase: 0.8,
+    createdAt: ''
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    setIsListening(true);
+    try {
+      setSamples(await audioProcessor.captureSample(SAMPLE_DURATION_MS));
+    } catch (err) {
+      setError('Could not record a sample. Make sure recording is running.');
+      console.error(err);
+    } finally {
+      setIsListening(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!samples) return;
+
+    try {
+      visualMapper.teachMapping(samples, look);
+      onClose();
+    } catch (err) {
+      setError('No sound was heard in the sample. Record it again a little louder.');
+      console.error(err);
+    }
+  };
+
+  const handleVisualTypeChange = (visualType: SoundMapping['visualType']) => {
+    setLook({ ...look, visualType, shapeType: SHAPE_TYPES[visualType][0] });
+  };
+
+  const fieldClassName = `w-full px-3 py-2 rounded-lg border text-sm transition-colors ${
+    isDark
+      ? 'bg-gray-700 border-gray-600 focus:border-blue-500'
+      : 'bg-white border-gray-300 focus:border-blue-500'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500/20`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className={`relative w-full max-w-lg rounded-2xl shadow-2xl ${
+        isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      } p-6`}>
+        <button
+          onClick={onClose}
+          className={`absolute top-4 right-4 p-2 rounded-lg transition-colors ${
+            isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-2xl font-bold mb-2">Teach a Sound</h2>
+        <p className="text-sm opacity-70 mb-6">
+          Record the sound, then choose how it should always look.
+        </p>
+
+        <div className="space-y-5 text-sm">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleRecord}
+              disabled={isListening}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+                isListening
+                  ? 'bg-red-500 text-white'
+                  : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              <Mic className={`w-4 h-4 ${isListening ? 'animate-pulse' : ''}`} />
+              {isListening ? 'Listening…' : samples ? 'Record Again' : 'Record Sample'}
+            </button>
+            <span className="opacity-70 font-mono text-xs">
+              {loudest
+                ? loudest.note && loudest.pitchConfidence >= 0.8
+                  ? `Heard ${loudest.note} · ${Math.round(loudest.pitchHz)} Hz`
+                  : `Heard ${Math.round(loudest.frequency)} Hz`
+                : 'Nothing recorded yet'}
+            </span>
+          </div>
+
+          {error && (
+            <div className={`p-2 rounded-lg text-xs ${
+              isDark ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-red-50 text-red-600 border border-red-200'
+            }`}>
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <div className={`rounded-xl flex items-center justify-center ${isDark ? 'bg-gray-900' : 'bg-gray-100'}`}>
+              <MappingPreview mapping={previewMapping} size={140} />
+            </div>
+
+            <div className="flex-1 space-y-3">
+              <label className="block">
+                <span className="block font-medium mb-1">Visual Type</span>
+                <select
+                  value={look.visualType}
+                  onChange={(e) => handleVisualTypeChange(e.target.value as SoundMapping['visualType'])}
+                  className={fieldClassName}
+                >
+                  {VISUAL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block font-medium mb-1">Shape</span>
+                <select
+                  value={look.shapeType}
+                  onChange={(e) => setLook({ ...look, shapeType: e.target.value })}
+                  className={fieldClassName}
+                >
+                  {SHAPE_TYPES[look.visualType].map(shape => <option key={shape} value={shape}>{shape}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block font-medium mb-1">Animation</span>
+                <select
+                  value={look.animationStyle}
+                  onChange={(e) => setLook({ ...look, animationStyle: e.target.value })}
+                  className={fieldClassName}
+                >
+                  {ANIMATION_STYLES.map(style => <option key={style} value={style}>{style}</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <span className="block font-medium mb-2">Palette</span>
+            <div className="grid grid-cols-6 gap-2 mb-3">
+              {PALETTES.map(({ name, colors: [primary, secondary] }) => (
+                <button
+                  key={name}
+                  onClick={() => setLook({ ...look, colorPrimary: primary, colorSecondary: secondary })}
+                  className={`h-8 rounded-lg border-2 transition-colors ${
+                    look.colorPrimary === primary && look.colorSecondary === secondary
+                      ? 'border-blue-500'
+                      : 'border-transparent'
+                  }`}
+                  style={{ background: `linear-gradient(135deg, ${primary}, ${secondary})` }}
+                  title={name}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="color"
+                value={look.colorPrimary}
+                onChange={(e) => setLook({ ...look, colorPrimary: e.target.value })}
+                className="w-full h-9 rounded cursor-pointer"
+                aria-label="Primary color"
+              />
+              <input
+                type="color"
+                value={look.colorSecondary}
+                onChange={(e) => setLook({ ...look, colorSecondary: e.target.value })}
+                className="w-full h-9 rounded cursor-pointer"
+                aria-label="Secondary color"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={onClose}
+            className={`flex-1 px-6 py-3 rounded-lg font-medium transition-colors ${
+              isDark
+                ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!samples || isListening}
+            className={`flex-1 px-6 py-3 rounded-lg font-medium bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white transition-all flex items-center justify-center gap-2 ${
+              !samples || isListening ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <GraduationCap className="w-4 h-4" />
+            Save Mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
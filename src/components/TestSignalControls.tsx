@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import {
+  CUSTOM_TEST_SIGNAL_ID,
+  MAX_CLICK_BPM,
+  MIN_CLICK_BPM,
+  TEST_SIGNAL_PRESETS,
+  TestSignal,
+  TestSignalPreset,
+  WAVEFORMS,
+  createCustomPreset,
+  parseFrequency
+} from '../lib/signalGenerator';
+
+interface TestSignalControlsProps {
+  testSignal: TestSignalPreset;
+  onTestSignalChange: (preset: TestSignalPreset) => void;
+  isDark: boolean;
+}
+
+const signalFrequency = (signal: TestSignal) => (signal.type === 'tone' ? String(Math.round(signal.frequency * 100) / 100) : '');
+const signalBpm = (signal: TestSignal) => (signal.type === 'clicks' ? String(signal.bpm) : '');
+
+// Presets are shortcuts; the fields below them edit the chosen signal.
+export function TestSignalControls({ testSignal, onTestSignalChange, isDark }: TestSignalControlsProps) {
+  const [frequencyText, setFrequencyText] = useState(() => signalFrequency(testSignal.signal));
+  const [bpmText, setBpmText] = useState(() => signalBpm(testSignal.signal));
+  const { signal } = testSignal;
+
+  const choosePreset = (preset: TestSignalPreset) => {
+    setFrequencyText(signalFrequency(preset.signal));
+    setBpmText(signalBpm(preset.signal));
+    onTestSignalChange(preset);
+  };
+
+  const handleFrequencyChange = (text: string) => {
+    setFrequencyText(text);
+    const frequency = parseFrequency(text);
+    if (frequency !== null && signal.type === 'tone') {
+      onTestSignalChange(createCustomPreset({ ...signal, frequency }));
+    }
+  };
+
+  const handleBpmChange = (text: string) => {
+    setBpmText(text);
+    const bpm = parseInt(text, 10);
+    if (bpm >= MIN_CLICK_BPM && bpm <= MAX_CLICK_BPM) {
+      onTestSignalChange(createCustomPreset({ type: 'clicks', bpm }));
+    }
+  };
+
+  const handleWaveformChange = (waveform: OscillatorType) => {
+    if (signal.type === 'tone' || signal.type === 'chord') {
+      onTestSignalChange(createCustomPreset({ ...signal, waveform }));
+    }
+  };
+
+  const fieldClassName = (valid = true) => `w-full px-2 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+    isDark ? 'bg-gray-700' : 'bg-white'
+  } ${
+    valid
+      ? isDark ? 'border-gray-600 focus:border-blue-500' : 'border-gray-300 focus:border-blue-500'
+      : 'border-red-500'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500/20`;
+
+  return (
+    <div className="space-y-1 mb-1">
+      <select
+        value={testSignal.id}
+        onChange={(e) => {
+          const preset = TEST_SIGNAL_PRESETS.find(p => p.id === e.target.value);
+          if (preset) choosePreset(preset);
+        }}
+        className={fieldClassName()}
+      >
+        {TEST_SIGNAL_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+        {testSignal.id === CUSTOM_TEST_SIGNAL_ID && (
+          <option value={CUSTOM_TEST_SIGNAL_ID}>{testSignal.label}</option>
+        )}
+      </select>
+
+      {signal.type === 'tone' && (
+        <input
+          type="text"
+          value={frequencyText}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          placeholder="Hz or note, e.g. 440 or A4"
+          className={fieldClassName(parseFrequency(frequencyText) !== null)}
+          aria-label="Tone frequency"
+        />
+      )}
+
+      {(signal.type === 'tone' || signal.type === 'chord') && (
+        <select
+          value={signal.waveform ?? 'sine'}
+          onChange={(e) => handleWaveformChange(e.target.value as OscillatorType)}
+          className={fieldClassName()}
+          aria-label="Waveform"
+        >
+          {WAVEFORMS.map((waveform) => (
+            <option key={waveform} value={waveform}>
+              {waveform[0].toUpperCase() + waveform.slice(1)} wave
+            </option>
+          ))}
+        </select>
+      )}
+
+      {signal.type === 'clicks' && (
+        <input
+          type="number"
+          min={MIN_CLICK_BPM}
+          max={MAX_CLICK_BPM}
+          value={bpmText}
+          onChange={(e) => handleBpmChange(e.target.value)}
+          className={fieldClassName(parseInt(bpmText, 10) >= MIN_CLICK_BPM && parseInt(bpmText, 10) <= MAX_CLICK_BPM)}
+          aria-label="Click track BPM"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { StorageService } from './storage';
+
 export interface AudioDeviceInfo {
   deviceId: string;
   label: string;
@@ -35,7 +37,8 @@ export class AudioDeviceManager {
       const outputDevices = devices.filter(d => d.kind === 'audiooutput');
 
       if (inputDevices.length > 0) {
-        const defaultInput = inputDevices.find(d => d.deviceId === 'default') || inputDevices[0];
+        const selectedInput = inputDevices.find(d => d.deviceId === this.currentInputDevice?.deviceId);
+        const defaultInput = selectedInput || inputDevices.find(d => d.deviceId === 'default') || inputDevices[0];
         this.currentInputDevice = {
           deviceId: defaultInput.deviceId,
           label: defaultInput.label || 'Default Microphone',
@@ -47,7 +50,8 @@ export class AudioDeviceManager {
       }
 
       if (outputDevices.length > 0) {
-        const defaultOutput = outputDevices.find(d => d.deviceId === 'default') || outputDevices[0];
+        const selectedOutput = outputDevices.find(d => d.deviceId === this.currentOutputDevice?.deviceId);
+        const defaultOutput = selectedOutput || outputDevices.find(d => d.deviceId === 'default') || outputDevices[0];
         this.currentOutputDevice = {
           deviceId: defaultOutput.deviceId,
           label: defaultOutput.label || 'Default Speakers',
@@ -163,6 +167,18 @@ export class AudioDeviceManager {
     }
   }
 
+  getNoiseFloor(deviceId: string): number {
+    return StorageService.getNoiseFloors()[deviceId] ?? 0;
+  }
+
+  setNoiseFloor(deviceId: string, noiseFloor: number): void {
+    StorageService.saveNoiseFloor(deviceId, noiseFloor);
+  }
+
+  clearNoiseFloor(deviceId: string): void {
+    StorageService.deleteNoiseFloor(deviceId);
+  }
+
   async requestPermissions(): Promise<boolean> {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
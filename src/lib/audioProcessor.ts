@@ -1,142 +1,419 @@
-export interface AudioFeatures {
-  frequency: number;
-  amplitude: number;
-  lowFreq: number;
-  midFreq: number;
-  highFreq: number;
-  signature: string;
+import { AudioSource, AudioSourceKind, MicrophoneSource } from './audioSources';
+import {
+  AudioFeatures,
+  DEFAULT_FFT_SIZE,
+  DEFAULT_SMOOTHING,
+  ExtractedFrame,
+  ExtractorConfig,
+  ExtractorInit,
+  ExtractorMessage,
+  FEATURE_PROCESSOR_NAME,
+  FeatureExtractor,
+  createExtractorConfig,
+  estimatePan,
+  measureChannelLevels
+} from './featureExtractor';
+import { BandLayout, DEFAULT_BAND_LAYOUT, FrequencyBand, createBands } from './frequencyBands';
+import featureWorkletUrl from './featureWorklet.ts?worker&url';
+import FeatureWorker from './featureWorker.ts?worker';
+
+export type { AudioFeatures } from './featureExtractor';
+
+export interface AnalyserSettings {
+  fftSize: number;
+  smoothingTimeConstant: number;
+}
+
+export interface AnalysisFrame {
+  level: number;
+  peak: number;
+  spectrum: Uint8Array;
+  features: AudioFeatures;
+  timestamp: number;
+}
+
+// What the level meter and band display follow: the audio processor, or MIDI input.
+export interface FrameSource {
+  onFrame(callback: (frame: AnalysisFrame) => void): () => void;
+  getBands(): FrequencyBand[];
 }
 
+const SOURCE_ERROR_MESSAGES: Record<AudioSourceKind, string> = {
+  microphone: 'Microphone access denied or unavailable',
+  file: 'Audio file could not be loaded or played',
+  display: 'Tab or system audio capture was cancelled or unavailable',
+  generator: 'Test signal could not be generated'
+};
+
+export const FFT_SIZES = [512, 1024, 2048, 4096, 8192];
+
+const CHANNEL_COUNT = 2;
+const CHANNEL_ANALYSER_SIZE = 1024;
+const CALIBRATION_PERCENTILE = 0.95;
+const MAX_NOISE_FLOOR = 0.9;
+
 export class AudioProcessor {
   private audioContext: AudioContext | null = null;
+  private inputNode: GainNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private featureWorker: Worker | null = null;
   private analyser: AnalyserNode | null = null;
-  private microphone: MediaStreamAudioSourceNode | null = null;
-  private dataArray: Uint8Array | null = null;
-  private frequencyBins: Uint8Array | null = null;
+  private fallbackExtractor: FeatureExtractor | null = null;
+  private timeDomainSamples: Float32Array | null = null;
+  private channelSplitter: ChannelSplitterNode | null = null;
+  private channelAnalysers: AnalyserNode[] = [];
+  private channelSamples: Float32Array[] = [];
+  private source: AudioSource | null = null;
+  private sourceNode: AudioNode | null = null;
+  private bandLayout: BandLayout = DEFAULT_BAND_LAYOUT;
+  private analyserSettings: AnalyserSettings = {
+    fftSize: DEFAULT_FFT_SIZE,
+    smoothingTimeConstant: DEFAULT_SMOOTHING
+  };
+  private noiseFloor = 0;
+  private calibrationSamples: number[] | null = null;
   private isActive = false;
+  private pendingFrame: ExtractedFrame | null = null;
+  private latestFrame: AnalysisFrame | null = null;
+  private frameRequest: number | null = null;
+  private frameListeners: Array<(frame: AnalysisFrame) => void> = [];
+  private sourceEndedListeners: Array<(source: AudioSource) => void> = [];
+  private unsubscribeSourceEnded: (() => void) | null = null;
 
-  async initialize(): Promise<void> {
+  async initialize(source: AudioSource = new MicrophoneSource()): Promise<void> {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
       this.audioContext = new AudioContext();
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 2048;
-      this.analyser.smoothingTimeConstant = 0.8;
-
-      this.microphone = this.audioContext.createMediaStreamSource(stream);
-      this.microphone.connect(this.analyser);
+      this.inputNode = this.audioContext.createGain();
+      // Mono sources are upmixed to both channels so they read as centred.
+      this.inputNode.channelCount = CHANNEL_COUNT;
+      this.inputNode.channelCountMode = 'explicit';
+      this.inputNode.channelInterpretation = 'speakers';
+      await this.createAnalysisNode(this.audioContext, this.inputNode);
+      this.createChannelAnalysers(this.audioContext, this.inputNode);
 
-      const bufferLength = this.analyser.frequencyBinCount;
-      this.dataArray = new Uint8Array(bufferLength);
-      this.frequencyBins = new Uint8Array(bufferLength);
+      this.source = source;
+      this.sourceNode = await source.connect(this.audioContext);
+      this.sourceNode.connect(this.inputNode);
+      this.watchSource(source);
 
       this.isActive = true;
+      this.startFrameLoop();
     } catch (error) {
       console.error('Error initializing audio:', error);
-      throw new Error('Microphone access denied or unavailable');
+      this.stop();
+      throw new Error(SOURCE_ERROR_MESSAGES[source.kind]);
+    }
+  }
+
+  async switchSource(source: AudioSource): Promise<void> {
+    if (!this.audioContext || !this.inputNode || !this.isActive) {
+      throw new Error('Audio processor is not running');
+    }
+
+    let node: AudioNode;
+    try {
+      node = await source.connect(this.audioContext);
+    } catch (error) {
+      console.error('Error switching audio source:', error);
+      source.disconnect();
+      throw new Error(SOURCE_ERROR_MESSAGES[source.kind]);
+    }
+
+    node.connect(this.inputNode);
+
+    if (this.source) {
+      this.source.disconnect();
     }
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+    }
+
+    this.source = source;
+    this.sourceNode = node;
+    this.watchSource(source);
   }
 
   getAudioFeatures(): AudioFeatures | null {
-    if (!this.analyser || !this.dataArray || !this.frequencyBins || !this.isActive) {
+    if (!this.isActive || !this.latestFrame) {
       return null;
     }
 
-    this.analyser.getByteTimeDomainData(this.dataArray);
-    this.analyser.getByteFrequencyData(this.frequencyBins);
-
-    const amplitude = this.calculateAmplitude(this.dataArray);
-    const dominantFrequency = this.getDominantFrequency();
-    const { low, mid, high } = this.getFrequencyBands();
-    const signature = this.generateSignature(dominantFrequency, low, mid, high);
+    return this.latestFrame.features;
+  }
 
-    return {
-      frequency: dominantFrequency,
-      amplitude,
-      lowFreq: low,
-      midFreq: mid,
-      highFreq: high,
-      signature
-    };
+  setBandLayout(layout: BandLayout): void {
+    this.bandLayout = layout;
+    this.configureExtractor({ bandLayout: layout });
   }
 
-  private calculateAmplitude(data: Uint8Array): number {
-    let sum = 0;
-    for (let i = 0; i < data.length; i++) {
-      const normalized = (data[i] - 128) / 128;
-      sum += Math.abs(normalized);
+  setAnalyserSettings(settings: AnalyserSettings): void {
+    if (!FFT_SIZES.includes(settings.fftSize)) {
+      throw new Error(`Unsupported FFT size: ${settings.fftSize}`);
     }
-    const avgAmplitude = sum / data.length;
 
-    if (!this.frequencyBins) return avgAmplitude;
+    this.analyserSettings = settings;
+    this.configureExtractor(settings);
 
-    let freqSum = 0;
-    for (let i = 0; i < this.frequencyBins.length; i++) {
-      freqSum += this.frequencyBins[i];
+    if (this.analyser && this.analyser.fftSize !== settings.fftSize) {
+      this.analyser.fftSize = settings.fftSize;
+      this.timeDomainSamples = new Float32Array(settings.fftSize);
     }
-    const freqAverage = freqSum / this.frequencyBins.length / 255;
+  }
 
-    return Math.max(avgAmplitude, freqAverage) * 1.5;
+  getAnalyserSettings(): AnalyserSettings {
+    return this.analyserSettings;
   }
 
-  private getDominantFrequency(): number {
-    if (!this.frequencyBins || !this.audioContext) return 0;
+  setNoiseFloor(noiseFloor: number): void {
+    this.noiseFloor = Math.max(0, Math.min(noiseFloor, MAX_NOISE_FLOOR));
+  }
 
-    let maxValue = 0;
-    let maxIndex = 0;
+  getNoiseFloor(): number {
+    return this.noiseFloor;
+  }
 
-    for (let i = 0; i < this.frequencyBins.length; i++) {
-      if (this.frequencyBins[i] > maxValue) {
-        maxValue = this.frequencyBins[i];
-        maxIndex = i;
-      }
+  async calibrateNoiseFloor(durationMs = 3000): Promise<number> {
+    if (!this.isActive) {
+      throw new Error('Audio processor is not running');
     }
 
-    const nyquist = this.audioContext.sampleRate / 2;
-    return (maxIndex * nyquist) / this.frequencyBins.length;
+    const samples: number[] = [];
+    this.calibrationSamples = samples;
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    this.calibrationSamples = null;
+
+    if (samples.length === 0) {
+      throw new Error('No audio was captured during calibration');
+    }
+
+    samples.sort((a, b) => a - b);
+    const noiseFloor = samples[Math.floor((samples.length - 1) * CALIBRATION_PERCENTILE)];
+    return Math.min(noiseFloor, MAX_NOISE_FLOOR);
+  }
+
+  // Records published frames for a short while, e.g. to teach a sound.
+  async captureSample(durationMs = 1500): Promise<AudioFeatures[]> {
+    if (!this.isActive) {
+      throw new Error('Audio processor is not running');
+    }
+
+    const frames: AudioFeatures[] = [];
+    const unsubscribe = this.onFrame(frame => frames.push(frame.features));
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    unsubscribe();
+
+    return frames;
   }
 
-  private getFrequencyBands(): { low: number; mid: number; high: number } {
-    if (!this.frequencyBins) return { low: 0, mid: 0, high: 0 };
+  getBandLayout(): BandLayout {
+    return this.bandLayout;
+  }
 
-    const lowEnd = Math.floor(this.frequencyBins.length * 0.1);
-    const midEnd = Math.floor(this.frequencyBins.length * 0.4);
+  getBands(): FrequencyBand[] {
+    if (!this.audioContext) return [];
 
-    let low = 0, mid = 0, high = 0;
+    const config = this.getExtractorConfig(this.audioContext.sampleRate);
+    return createBands(this.bandLayout, config.fftSize / 2, config.sampleRate);
+  }
 
-    for (let i = 0; i < lowEnd; i++) {
-      low += this.frequencyBins[i];
+  onFrame(callback: (frame: AnalysisFrame) => void): () => void {
+    this.frameListeners.push(callback);
+
+    return () => {
+      this.frameListeners = this.frameListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  onSourceEnded(callback: (source: AudioSource) => void): () => void {
+    this.sourceEndedListeners.push(callback);
+
+    return () => {
+      this.sourceEndedListeners = this.sourceEndedListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  private watchSource(source: AudioSource): void {
+    this.unsubscribeSourceEnded?.();
+    this.unsubscribeSourceEnded = source.onEnded?.(() => {
+      this.sourceEndedListeners.forEach(listener => listener(source));
+    }) ?? null;
+  }
+
+  private getExtractorConfig(sampleRate: number): ExtractorConfig {
+    return createExtractorConfig(sampleRate, { ...this.analyserSettings, bandLayout: this.bandLayout });
+  }
+
+  private configureExtractor(config: Partial<ExtractorConfig>): void {
+    if (this.featureWorker) {
+      const message: ExtractorMessage = { type: 'configure', config };
+      this.featureWorker.postMessage(message);
     }
-    for (let i = lowEnd; i < midEnd; i++) {
-      mid += this.frequencyBins[i];
+    if (this.fallbackExtractor) {
+      this.fallbackExtractor.configure(config);
     }
-    for (let i = midEnd; i < this.frequencyBins.length; i++) {
-      high += this.frequencyBins[i];
+  }
+
+  private async createAnalysisNode(audioContext: AudioContext, inputNode: GainNode): Promise<void> {
+    const config = this.getExtractorConfig(audioContext.sampleRate);
+
+    if (audioContext.audioWorklet) {
+      try {
+        await audioContext.audioWorklet.addModule(featureWorkletUrl);
+        this.workletNode = new AudioWorkletNode(audioContext, FEATURE_PROCESSOR_NAME, {
+          numberOfInputs: 1,
+          numberOfOutputs: 0
+        });
+
+        // The worklet only captures hops; analysis runs in a worker so the
+        // audio thread is never held up. The two talk over their own channel.
+        this.featureWorker = new FeatureWorker();
+        this.featureWorker.onmessage = (event: MessageEvent<ExtractedFrame>) => {
+          this.receiveFrame(event.data);
+        };
+        const channel = new MessageChannel();
+        const init: ExtractorInit = { type: 'init', config, capturePort: channel.port1 };
+        this.featureWorker.postMessage(init, [channel.port1]);
+        this.workletNode.port.postMessage(channel.port2, [channel.port2]);
+
+        inputNode.connect(this.workletNode);
+        return;
+      } catch (error) {
+        console.error('AudioWorklet unavailable, analysing on the main thread:', error);
+        this.featureWorker?.terminate();
+        this.featureWorker = null;
+        this.workletNode = null;
+      }
     }
 
-    low /= lowEnd;
-    mid /= (midEnd - lowEnd);
-    high /= (this.frequencyBins.length - midEnd);
+    this.analyser = audioContext.createAnalyser();
+    this.analyser.fftSize = config.fftSize;
+    this.timeDomainSamples = new Float32Array(config.fftSize);
+    this.fallbackExtractor = new FeatureExtractor(config);
+    inputNode.connect(this.analyser);
+  }
+
+  private createChannelAnalysers(audioContext: AudioContext, inputNode: GainNode): void {
+    this.channelSplitter = audioContext.createChannelSplitter(CHANNEL_COUNT);
+    inputNode.connect(this.channelSplitter);
+
+    for (let channel = 0; channel < CHANNEL_COUNT; channel++) {
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = CHANNEL_ANALYSER_SIZE;
+      this.channelSplitter.connect(analyser, channel);
+      this.channelAnalysers.push(analyser);
+      this.channelSamples.push(new Float32Array(CHANNEL_ANALYSER_SIZE));
+    }
+  }
 
-    return { low, mid, high };
+  private measureChannels(): number[] {
+    this.channelAnalysers.forEach((analyser, channel) => {
+      analyser.getFloatTimeDomainData(this.channelSamples[channel]);
+    });
+    return measureChannelLevels(this.channelSamples);
   }
 
-  private generateSignature(freq: number, low: number, mid: number, high: number): string {
-    const freqBucket = Math.floor(freq / 50) * 50;
-    const lowBucket = Math.floor(low / 20) * 20;
-    const midBucket = Math.floor(mid / 20) * 20;
-    const highBucket = Math.floor(high / 20) * 20;
+  // Worklet frames arrive faster than animation frames; keep any onset or beat
+  // seen since the last publish so a skipped frame cannot drop a transient.
+  private receiveFrame(frame: ExtractedFrame): void {
+    this.calibrationSamples?.push(frame.features.amplitude);
 
-    return `${freqBucket}-${lowBucket}-${midBucket}-${highBucket}`;
+    const pending = this.pendingFrame;
+    if (pending) {
+      const { features } = frame;
+      features.onset = features.onset || pending.features.onset;
+      features.beat = features.beat || pending.features.beat;
+      features.onsetStrength = Math.max(features.onsetStrength, pending.features.onsetStrength);
+    }
+    this.pendingFrame = frame;
+  }
+
+  private startFrameLoop(): void {
+    const tick = () => {
+      if (this.analyser && this.fallbackExtractor && this.timeDomainSamples) {
+        this.analyser.getFloatTimeDomainData(this.timeDomainSamples);
+        this.receiveFrame(this.fallbackExtractor.process(this.timeDomainSamples, performance.now()));
+      }
+
+      if (this.pendingFrame) {
+        const { features } = this.pendingFrame;
+        const channelLevels = this.measureChannels();
+        const frame: AnalysisFrame = {
+          ...this.pendingFrame,
+          features: {
+            ...features,
+            amplitude: this.applyNoiseGate(features.amplitude),
+            channelLevels,
+            pan: estimatePan(channelLevels)
+          },
+          timestamp: performance.now()
+        };
+        this.pendingFrame = null;
+        this.latestFrame = frame;
+        this.frameListeners.forEach(listener => listener(frame));
+      } else if (this.latestFrame && (this.latestFrame.features.onset || this.latestFrame.features.beat)) {
+        this.latestFrame = {
+          ...this.latestFrame,
+          features: { ...this.latestFrame.features, onset: false, beat: false, onsetStrength: 0 }
+        };
+      }
+
+      this.frameRequest = requestAnimationFrame(tick);
+    };
+
+    tick();
+  }
+
+  private applyNoiseGate(amplitude: number): number {
+    if (this.noiseFloor <= 0) return amplitude;
+    if (amplitude <= this.noiseFloor) return 0;
+
+    return (amplitude - this.noiseFloor) / (1 - this.noiseFloor);
   }
 
   stop(): void {
-    if (this.microphone) {
-      this.microphone.disconnect();
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.pendingFrame = null;
+    this.latestFrame = null;
+    this.calibrationSamples = null;
+    this.unsubscribeSourceEnded?.();
+    this.unsubscribeSourceEnded = null;
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode = null;
     }
+    if (this.featureWorker) {
+      this.featureWorker.onmessage = null;
+      this.featureWorker.terminate();
+      this.featureWorker = null;
+    }
+    if (this.analyser) {
+      this.analyser.disconnect();
+      this.analyser = null;
+    }
+    this.fallbackExtractor = null;
+    this.timeDomainSamples = null;
+    this.channelAnalysers.forEach(analyser => analyser.disconnect());
+    this.channelAnalysers = [];
+    this.channelSamples = [];
+    if (this.channelSplitter) {
+      this.channelSplitter.disconnect();
+      this.channelSplitter = null;
+    }
+    this.inputNode = null;
     if (this.audioContext) {
       this.audioContext.close();
+      this.audioContext = null;
     }
     this.isActive = false;
   }
@@ -144,4 +421,8 @@ export class AudioProcessor {
   get active(): boolean {
     return this.isActive;
   }
+
+  get currentSource(): AudioSource | null {
+    return this.source;
+  }
 }
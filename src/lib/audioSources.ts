@@ -0,0 +1,228 @@
+export type AudioSourceKind = 'microphone' | 'file' | 'display' | 'generator';
+
+export interface AudioSource {
+  readonly kind: AudioSourceKind;
+  readonly label: string;
+  connect(audioContext: AudioContext): Promise<AudioNode>;
+  disconnect(): void;
+  // Sources that can end outside the app's control (e.g. a stopped screen
+  // share) report it here.
+  onEnded?(callback: () => void): () => void;
+}
+
+export interface PlaybackState {
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+}
+
+const SUPPORTED_AUDIO_EXTENSIONS = ['wav', 'mp3', 'ogg', 'oga', 'm4a', 'flac', 'webm'];
+const MEDIA_EVENTS = ['timeupdate', 'play', 'pause', 'ended', 'loadedmetadata', 'durationchange', 'seeked'];
+
+export class MicrophoneSource implements AudioSource {
+  readonly kind = 'microphone';
+  readonly label = 'Microphone';
+  readonly deviceId: string | undefined;
+  private stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+
+  constructor(deviceId?: string) {
+    this.deviceId = deviceId || undefined;
+  }
+
+  async connect(audioContext: AudioContext): Promise<AudioNode> {
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: this.deviceId ? { deviceId: { exact: this.deviceId } } : true
+    });
+    this.node = audioContext.createMediaStreamSource(this.stream);
+    return this.node;
+  }
+
+  disconnect(): void {
+    if (this.node) {
+      this.node.disconnect();
+      this.node = null;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+  }
+}
+
+export class DisplayAudioSource implements AudioSource {
+  readonly kind = 'display';
+  label = 'Tab or system audio';
+  private stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+  private endedListeners: Array<() => void> = [];
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+  }
+
+  async connect(audioContext: AudioContext): Promise<AudioNode> {
+    // Browsers only offer audio alongside a video share. The video track is
+    // kept alive (stopping it can end the whole share) but never used.
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+
+    const [audioTrack] = stream.getAudioTracks();
+    if (!audioTrack) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new Error('The shared tab or screen has no audio');
+    }
+
+    this.stream = stream;
+    this.label = audioTrack.label || this.label;
+    stream.getTracks().forEach(track => track.addEventListener('ended', this.handleTrackEnded));
+
+    this.node = audioContext.createMediaStreamSource(stream);
+    return this.node;
+  }
+
+  disconnect(): void {
+    if (this.node) {
+      this.node.disconnect();
+      this.node = null;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => {
+        track.removeEventListener('ended', this.handleTrackEnded);
+        track.stop();
+      });
+      this.stream = null;
+    }
+  }
+
+  onEnded(callback: () => void): () => void {
+    this.endedListeners.push(callback);
+
+    return () => {
+      this.endedListeners = this.endedListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  // Fired when the user stops sharing from the browser UI.
+  private handleTrackEnded = (): void => {
+    if (!this.stream) return;
+
+    this.disconnect();
+    this.endedListeners.forEach(listener => listener());
+  };
+}
+
+export class FileSource implements AudioSource {
+  readonly kind = 'file';
+  readonly label: string;
+  readonly file: File;
+  private objectUrl: string;
+  private audioElement: HTMLAudioElement;
+  private node: MediaElementAudioSourceNode | null = null;
+  private playbackListeners: Array<(state: PlaybackState) => void> = [];
+
+  constructor(file: File) {
+    if (!FileSource.isSupported(file)) {
+      throw new Error('Unsupported audio file type');
+    }
+
+    this.label = file.name;
+    this.file = file;
+    this.objectUrl = URL.createObjectURL(file);
+    this.audioElement = this.createElement(0);
+  }
+
+  static isSupported(file: File): boolean {
+    if (file.type.startsWith('audio/')) return true;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return SUPPORTED_AUDIO_EXTENSIONS.includes(extension);
+  }
+
+  async connect(audioContext: AudioContext): Promise<AudioNode> {
+    this.node = audioContext.createMediaElementSource(this.audioElement);
+    this.node.connect(audioContext.destination);
+    await this.play();
+    return this.node;
+  }
+
+  disconnect(): void {
+    this.audioElement.pause();
+
+    if (this.node) {
+      this.node.disconnect();
+      this.node = null;
+
+      // A media element can only be attached to one AudioContext, so swap in a
+      // fresh element at the same position for the next session.
+      const currentTime = this.audioElement.currentTime;
+      this.detachElement(this.audioElement);
+      this.audioElement = this.createElement(currentTime);
+    }
+
+    this.notifyListeners();
+  }
+
+  async play(): Promise<void> {
+    if (this.audioElement.ended) {
+      this.audioElement.currentTime = 0;
+    }
+    await this.audioElement.play();
+  }
+
+  pause(): void {
+    this.audioElement.pause();
+  }
+
+  seek(seconds: number): void {
+    const duration = this.audioElement.duration;
+    const max = Number.isFinite(duration) ? duration : seconds;
+    this.audioElement.currentTime = Math.max(0, Math.min(seconds, max));
+  }
+
+  getPlaybackState(): PlaybackState {
+    const duration = this.audioElement.duration;
+    return {
+      currentTime: this.audioElement.currentTime,
+      duration: Number.isFinite(duration) ? duration : 0,
+      isPlaying: !this.audioElement.paused && !this.audioElement.ended
+    };
+  }
+
+  onPlaybackChange(callback: (state: PlaybackState) => void): () => void {
+    this.playbackListeners.push(callback);
+
+    return () => {
+      this.playbackListeners = this.playbackListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  release(): void {
+    this.disconnect();
+    this.detachElement(this.audioElement);
+    this.playbackListeners = [];
+    URL.revokeObjectURL(this.objectUrl);
+  }
+
+  private createElement(startTime: number): HTMLAudioElement {
+    const element = new Audio(this.objectUrl);
+    element.preload = 'auto';
+
+    if (startTime > 0) {
+      element.addEventListener('loadedmetadata', () => {
+        element.currentTime = startTime;
+      }, { once: true });
+    }
+
+    MEDIA_EVENTS.forEach(event => element.addEventListener(event, this.notifyListeners));
+    return element;
+  }
+
+  private detachElement(element: HTMLAudioElement): void {
+    MEDIA_EVENTS.forEach(event => element.removeEventListener(event, this.notifyListeners));
+  }
+
+  private notifyListeners = (): void => {
+    const state = this.getPlaybackState();
+    this.playbackListeners.forEach(listener => listener(state));
+  };
+}
@@ -0,0 +1,69 @@
+export interface HslColor {
+  hue: number;
+  saturation: number;
+  lightness: number;
+}
+
+export function formatHsl({ hue, saturation, lightness }: HslColor): string {
+  return `hsl(${Math.round(hue)}, ${Math.round(saturation)}%, ${Math.round(lightness)}%)`;
+}
+
+export function hslToHex({ hue, saturation, lightness }: HslColor): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+export function hexToHsl(hex: string): HslColor | null {
+  const match = hex.match(/^#([0-9a-f]{6})$/i);
+  if (!match) return null;
+
+  const value = parseInt(match[1], 16);
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { hue: 0, saturation: 0, lightness: lightness * 100 };
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === r) {
+    hue = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+
+  return { hue: (hue * 60 + 360) % 360, saturation: saturation * 100, lightness: lightness * 100 };
+}
+
+// Mapping colors are stored as either `hsl(h, s%, l%)` or `#rrggbb`.
+export function parseColor(color: string): HslColor | null {
+  const hsl = color.match(/hsl\(\s*([\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\s*\)/);
+  if (hsl) {
+    return { hue: parseFloat(hsl[1]), saturation: parseFloat(hsl[2]), lightness: parseFloat(hsl[3]) };
+  }
+
+  return hexToHsl(color);
+}
+
+export function toHexColor(color: string): string {
+  const parsed = parseColor(color);
+  return parsed ? hslToHex(parsed) : '#000000';
+}
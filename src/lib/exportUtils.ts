@@ -23,6 +23,15 @@ export class ExportUtils {
     this.downloadFile(dataUrl, options.filename, options.format);
   }
 
+  // Used for rule files and mapping packs.
+  static exportJson(data: unknown, filename: string): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    this.downloadFile(url, filename.replace(/[^\w-]+/g, '-'), 'JSON');
+    URL.revokeObjectURL(url);
+  }
+
   private static async convertToCMYK(
     canvas: HTMLCanvasElement,
     options: ExportOptions
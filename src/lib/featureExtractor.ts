@@ -0,0 +1,329 @@
+import { FFT } from './fft';
+import { PitchEstimate, detectPitch, frequencyToNote } from './pitchDetection';
+import { OnsetDetector } from './onsetDetection';
+import { SpectralDescriptors, SpectralFeatureExtractor } from './spectralFeatures';
+import {
+  BandLayout,
+  DEFAULT_BAND_LAYOUT,
+  FrequencyBand,
+  createBands,
+  createBandsFromEdges,
+  measureBands
+} from './frequencyBands';
+
+export interface AudioFeatures extends SpectralDescriptors {
+  frequency: number;
+  amplitude: number;
+  lowFreq: number;
+  midFreq: number;
+  highFreq: number;
+  bands: number[];
+  channelLevels: number[];
+  pan: number;
+  pitchHz: number;
+  pitchConfidence: number;
+  note: string | null;
+  cents: number;
+  onset: boolean;
+  onsetStrength: number;
+  beat: boolean;
+  bpm: number;
+  signature: string;
+}
+
+export interface ExtractedFrame {
+  level: number;
+  peak: number;
+  spectrum: Uint8Array;
+  features: AudioFeatures;
+}
+
+export interface ExtractorConfig {
+  sampleRate: number;
+  fftSize: number;
+  smoothingTimeConstant: number;
+  bandLayout: BandLayout;
+}
+
+export type ExtractorMessage = { type: 'configure'; config: Partial<ExtractorConfig> };
+
+// Sent to the feature worker once, with the port the capture worklet posts to.
+export interface ExtractorInit {
+  type: 'init';
+  config: ExtractorConfig;
+  capturePort: MessagePort;
+}
+
+// One hop of mono samples from the capture worklet. The worker sends the
+// buffer back once copied so the audio thread never has to allocate.
+export interface CapturedHop {
+  samples: Float32Array;
+  timestamp: number;
+}
+
+export const FEATURE_PROCESSOR_NAME = 'sound-canvas-feature-extractor';
+export const DEFAULT_FFT_SIZE = 2048;
+export const DEFAULT_SMOOTHING = 0.8;
+export const HOP_SIZE = 512;
+
+const PITCH_CONFIDENCE_THRESHOLD = 0.8;
+// Smoothing, onset detection and pitch were tuned when analysis ran once per
+// animation frame. Frames can now arrive faster (one per hop), so smoothing is
+// rescaled by elapsed time and the costlier detectors run at this rate.
+const REFERENCE_INTERVAL_MS = 1000 / 60;
+const MAX_SMOOTHING_STEP_MS = 1000;
+// YIN costs window × lag; 2048 samples still covers the 50 Hz lower limit.
+const PITCH_WINDOW = 2048;
+const LOW_MID_HIGH_EDGES = [20, 250, 4000];
+
+// Match the AnalyserNode defaults so byte spectra look the same as before.
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+export function createExtractorConfig(sampleRate: number, config: Partial<ExtractorConfig> = {}): ExtractorConfig {
+  return {
+    sampleRate,
+    fftSize: DEFAULT_FFT_SIZE,
+    smoothingTimeConstant: DEFAULT_SMOOTHING,
+    bandLayout: DEFAULT_BAND_LAYOUT,
+    ...config
+  };
+}
+
+export function measureChannelLevels(channels: Float32Array[], start = 0, end?: number): number[] {
+  return channels.map(channel => {
+    const last = Math.min(end ?? channel.length, channel.length);
+    let sumSquares = 0;
+    for (let i = start; i < last; i++) {
+      sumSquares += channel[i] * channel[i];
+    }
+    return last > start ? Math.sqrt(sumSquares / (last - start)) : 0;
+  });
+}
+
+export function estimatePan(channelLevels: number[]): number {
+  if (channelLevels.length < 2) return 0;
+
+  const [left, right] = channelLevels;
+  const total = left + right;
+  return total > 1e-4 ? (right - left) / total : 0;
+}
+
+export class FeatureExtractor {
+  private config: ExtractorConfig;
+  private fft!: FFT;
+  private window!: Float32Array;
+  private real!: Float32Array;
+  private imag!: Float32Array;
+  private smoothedMagnitudes!: Float32Array;
+  private spectrum!: Uint8Array;
+  private spectralExtractor!: SpectralFeatureExtractor;
+  private bands: FrequencyBand[] = [];
+  private lowMidHighBands: FrequencyBand[] = [];
+  private onsetDetector = new OnsetDetector();
+  private lastTimestamp: number | null = null;
+  private nextAnalysisTime = -Infinity;
+  private lastPitch: PitchEstimate = { pitchHz: 0, confidence: 0 };
+  private lastBpm = 0;
+
+  constructor(config: ExtractorConfig) {
+    this.config = config;
+    this.allocate();
+  }
+
+  configure(config: Partial<ExtractorConfig>): void {
+    const previous = this.config;
+    this.config = { ...this.config, ...config };
+
+    if (this.config.fftSize !== previous.fftSize || this.config.sampleRate !== previous.sampleRate) {
+      this.allocate();
+    } else if (this.config.bandLayout !== previous.bandLayout) {
+      this.updateBands();
+    }
+  }
+
+  getConfig(): ExtractorConfig {
+    return this.config;
+  }
+
+  process(samples: Float32Array, timestamp: number, channelLevels: number[] = []): ExtractedFrame {
+    const { fftSize, sampleRate } = this.config;
+    const binCount = fftSize / 2;
+
+    const elapsed = this.lastTimestamp === null ? REFERENCE_INTERVAL_MS : timestamp - this.lastTimestamp;
+    this.lastTimestamp = timestamp;
+    this.computeSpectrum(samples, Math.max(0, Math.min(elapsed, MAX_SMOOTHING_STEP_MS)));
+
+    // Scheduled on a fixed grid so hops that do not divide the interval still
+    // average out to the reference rate.
+    const analyse = timestamp >= this.nextAnalysisTime;
+    if (analyse) {
+      this.nextAnalysisTime = timestamp - this.nextAnalysisTime > REFERENCE_INTERVAL_MS
+        ? timestamp + REFERENCE_INTERVAL_MS
+        : this.nextAnalysisTime + REFERENCE_INTERVAL_MS;
+      this.lastPitch = detectPitch(samples.subarray(Math.max(0, samples.length - PITCH_WINDOW)), sampleRate);
+    }
+
+    const amplitude = this.calculateAmplitude(samples);
+    const dominantFrequency = this.getDominantFrequency();
+    const [low, mid, high] = measureBands(this.spectrum, this.lowMidHighBands);
+    const pitch = this.lastPitch;
+    const note = frequencyToNote(pitch.pitchHz);
+    const stableFrequency = pitch.confidence >= PITCH_CONFIDENCE_THRESHOLD ? pitch.pitchHz : dominantFrequency;
+    const spectral = this.spectralExtractor.extract(this.smoothedMagnitudes, samples);
+    const signature = this.generateSignature(stableFrequency, low, mid, high, spectral);
+    const rhythm = analyse
+      ? this.onsetDetector.process(this.spectrum, timestamp)
+      : { onset: false, onsetStrength: 0, beat: false, bpm: this.lastBpm };
+    this.lastBpm = rhythm.bpm;
+
+    return {
+      level: this.calculateLevel(binCount),
+      peak: this.calculatePeak(samples),
+      spectrum: this.spectrum.slice(),
+      features: {
+        frequency: dominantFrequency,
+        amplitude,
+        lowFreq: low,
+        midFreq: mid,
+        highFreq: high,
+        bands: measureBands(this.spectrum, this.bands),
+        channelLevels,
+        pan: estimatePan(channelLevels),
+        pitchHz: pitch.pitchHz,
+        pitchConfidence: pitch.confidence,
+        note: note ? `${note.name}${note.octave}` : null,
+        cents: note ? note.cents : 0,
+        onset: rhythm.onset,
+        onsetStrength: rhythm.onsetStrength,
+        beat: rhythm.beat,
+        bpm: rhythm.bpm,
+        ...spectral,
+        signature
+      }
+    };
+  }
+
+  private allocate(): void {
+    const { fftSize, sampleRate } = this.config;
+    const binCount = fftSize / 2;
+
+    this.fft = new FFT(fftSize);
+    this.real = new Float32Array(fftSize);
+    this.imag = new Float32Array(fftSize);
+    this.smoothedMagnitudes = new Float32Array(binCount);
+    this.spectrum = new Uint8Array(binCount);
+    this.spectralExtractor = new SpectralFeatureExtractor(binCount, sampleRate);
+
+    // Blackman window, as used by AnalyserNode.
+    this.window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      const phase = (2 * Math.PI * i) / fftSize;
+      this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    }
+
+    this.updateBands();
+    this.onsetDetector.reset();
+    this.lastTimestamp = null;
+    this.nextAnalysisTime = -Infinity;
+  }
+
+  private updateBands(): void {
+    const { fftSize, sampleRate, bandLayout } = this.config;
+    const binCount = fftSize / 2;
+    const edges = [...LOW_MID_HIGH_EDGES, Math.min(20000, sampleRate / 2)];
+
+    this.bands = createBands(bandLayout, binCount, sampleRate);
+    this.lowMidHighBands = createBandsFromEdges(edges, binCount, sampleRate);
+  }
+
+  private computeSpectrum(samples: Float32Array, elapsedMs: number): void {
+    const { fftSize } = this.config;
+    const binCount = fftSize / 2;
+    const offset = samples.length - fftSize;
+    const smoothingTimeConstant = Math.pow(this.config.smoothingTimeConstant, elapsedMs / REFERENCE_INTERVAL_MS);
+
+    for (let i = 0; i < fftSize; i++) {
+      this.real[i] = (samples[offset + i] ?? 0) * this.window[i];
+      this.imag[i] = 0;
+    }
+
+    this.fft.forward(this.real, this.imag);
+
+    const decibelRange = MAX_DECIBELS - MIN_DECIBELS;
+    for (let i = 0; i < binCount; i++) {
+      const magnitude = Math.hypot(this.real[i], this.imag[i]) / fftSize;
+      const smoothed = smoothingTimeConstant * this.smoothedMagnitudes[i] +
+        (1 - smoothingTimeConstant) * magnitude;
+      this.smoothedMagnitudes[i] = Number.isFinite(smoothed) ? smoothed : 0;
+
+      const decibels = 20 * Math.log10(this.smoothedMagnitudes[i] || 1e-12);
+      const scaled = (255 * (decibels - MIN_DECIBELS)) / decibelRange;
+      this.spectrum[i] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+  }
+
+  private calculateLevel(binCount: number): number {
+    let sum = 0;
+    for (let i = 0; i < binCount; i++) {
+      sum += this.spectrum[i];
+    }
+    return sum / binCount / 255;
+  }
+
+  private calculatePeak(samples: Float32Array): number {
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    return Math.min(peak, 1);
+  }
+
+  private calculateAmplitude(samples: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += Math.abs(samples[i]);
+    }
+    const avgAmplitude = sum / samples.length;
+
+    let freqSum = 0;
+    for (let i = 0; i < this.spectrum.length; i++) {
+      freqSum += this.spectrum[i];
+    }
+    const freqAverage = freqSum / this.spectrum.length / 255;
+
+    return Math.max(avgAmplitude, freqAverage) * 1.5;
+  }
+
+  private getDominantFrequency(): number {
+    let maxValue = 0;
+    let maxIndex = 0;
+
+    for (let i = 0; i < this.spectrum.length; i++) {
+      if (this.spectrum[i] > maxValue) {
+        maxValue = this.spectrum[i];
+        maxIndex = i;
+      }
+    }
+
+    const nyquist = this.config.sampleRate / 2;
+    return (maxIndex * nyquist) / this.spectrum.length;
+  }
+
+  private generateSignature(
+    freq: number,
+    low: number,
+    mid: number,
+    high: number,
+    spectral: SpectralDescriptors
+  ): string {
+    const freqBucket = Math.floor(freq / 50) * 50;
+    const lowBucket = Math.floor(low / 20) * 20;
+    const midBucket = Math.floor(mid / 20) * 20;
+    const highBucket = Math.floor(high / 20) * 20;
+    const brightnessBucket = Math.max(0, Math.round(Math.log2(Math.max(spectral.spectralCentroid, 1) / 250)));
+    const noisinessBucket = Math.floor(spectral.spectralFlatness * 4);
+
+    return `${freqBucket}-${lowBucket}-${midBucket}-${highBucket}-${brightnessBucket}-${noisinessBucket}`;
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  CapturedHop,
+  ExtractorInit,
+  ExtractorMessage,
+  FeatureExtractor,
+  HOP_SIZE
+} from './featureExtractor';
+
+// Extracts features from the hops the capture worklet records, off both the
+// audio thread and the main thread. Frames are posted to the main thread.
+
+// The DOM lib types `self` as a Window, so describe the worker scope here.
+declare const self: {
+  onmessage: ((event: MessageEvent<ExtractorInit | ExtractorMessage>) => void) | null;
+  postMessage(message: unknown, transfer: Transferable[]): void;
+};
+
+let extractor: FeatureExtractor | null = null;
+let ringBuffer = new Float32Array(0);
+let frame = new Float32Array(0);
+let writeIndex = 0;
+
+function allocate(fftSize: number): void {
+  ringBuffer = new Float32Array(fftSize);
+  frame = new Float32Array(fftSize);
+  writeIndex = 0;
+}
+
+function receiveHop(port: MessagePort, { samples, timestamp }: CapturedHop): void {
+  for (let i = 0; i < HOP_SIZE; i++) {
+    ringBuffer[writeIndex] = samples[i];
+    writeIndex = (writeIndex + 1) % ringBuffer.length;
+  }
+  port.postMessage(samples, [samples.buffer]);
+
+  if (!extractor) return;
+
+  const size = ringBuffer.length;
+  for (let i = 0; i < size; i++) {
+    frame[i] = ringBuffer[(writeIndex + i) % size];
+  }
+
+  const extracted = extractor.process(frame, timestamp);
+  self.postMessage(extracted, [extracted.spectrum.buffer]);
+}
+
+self.onmessage = (event: MessageEvent<ExtractorInit | ExtractorMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init': {
+      const { capturePort } = message;
+      extractor = new FeatureExtractor(message.config);
+      allocate(message.config.fftSize);
+      capturePort.onmessage = (hop: MessageEvent<CapturedHop>) => receiveHop(capturePort, hop.data);
+      break;
+    }
+    case 'configure':
+      extractor?.configure(message.config);
+      if (extractor && ringBuffer.length !== extractor.getConfig().fftSize) {
+        allocate(extractor.getConfig().fftSize);
+      }
+      break;
+  }
+};
@@ -0,0 +1,68 @@
+import { CapturedHop, FEATURE_PROCESSOR_NAME, HOP_SIZE } from './featureExtractor';
+
+// Globals of the AudioWorkletGlobalScope, which the DOM lib does not describe.
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+// Hop buffers in flight to the feature worker. If the worker falls this far
+// behind, hops are dropped rather than allocating on the audio thread.
+const BUFFER_POOL_SIZE = 16;
+
+// Runs on the audio render thread, so it only mixes the input down to mono
+// and hands it over in hops; the feature worker does the analysis.
+class FeatureWorkletProcessor extends AudioWorkletProcessor {
+  private capturePort: MessagePort | null = null;
+  private freeBuffers: Float32Array[] = [];
+  private hop: Float32Array | null = null;
+  private hopIndex = 0;
+
+  constructor() {
+    super();
+
+    for (let i = 0; i < BUFFER_POOL_SIZE; i++) {
+      this.freeBuffers.push(new Float32Array(HOP_SIZE));
+    }
+    this.port.onmessage = (event: MessageEvent<MessagePort>) => this.connect(event.data);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!this.capturePort || !channels || channels.length === 0) return true;
+
+    const blockLength = channels[0].length;
+    for (let i = 0; i < blockLength; i++) {
+      if (!this.hop) {
+        this.hop = this.freeBuffers.pop() ?? null;
+        this.hopIndex = 0;
+        if (!this.hop) return true;
+      }
+
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        sample += channels[c][i];
+      }
+      this.hop[this.hopIndex++] = sample / channels.length;
+
+      if (this.hopIndex >= HOP_SIZE) {
+        const message: CapturedHop = { samples: this.hop, timestamp: currentTime * 1000 };
+        this.capturePort.postMessage(message, [this.hop.buffer]);
+        this.hop = null;
+      }
+    }
+
+    return true;
+  }
+
+  private connect(port: MessagePort): void {
+    this.capturePort = port;
+    port.onmessage = (event: MessageEvent<Float32Array>) => this.freeBuffers.push(event.data);
+  }
+}
+
+registerProcessor(FEATURE_PROCESSOR_NAME, FeatureWorkletProcessor);
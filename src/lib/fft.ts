@@ -0,0 +1,68 @@
+export class FFT {
+  readonly size: number;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reverseTable: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error('FFT size must be a power of two');
+    }
+
+    this.size = size;
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverseTable = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverseTable[i] = reversed;
+    }
+  }
+
+  // In-place iterative radix-2 transform.
+  forward(real: Float32Array, imag: Float32Array): void {
+    const n = this.size;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverseTable[i];
+      if (j > i) {
+        let temp = real[i];
+        real[i] = real[j];
+        real[j] = temp;
+        temp = imag[i];
+        imag[i] = imag[j];
+        imag[j] = temp;
+      }
+    }
+
+    for (let blockSize = 2; blockSize <= n; blockSize *= 2) {
+      const halfSize = blockSize / 2;
+      const tableStep = n / blockSize;
+
+      for (let start = 0; start < n; start += blockSize) {
+        for (let k = 0; k < halfSize; k++) {
+          const even = start + k;
+          const odd = even + halfSize;
+          const cos = this.cosTable[k * tableStep];
+          const sin = this.sinTable[k * tableStep];
+          const tre = real[odd] * cos + imag[odd] * sin;
+          const tim = imag[odd] * cos - real[odd] * sin;
+
+          real[odd] = real[even] - tre;
+          imag[odd] = imag[even] - tim;
+          real[even] += tre;
+          imag[even] += tim;
+        }
+      }
+    }
+  }
+}
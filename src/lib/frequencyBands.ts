@@ -0,0 +1,85 @@
+import { hzToMel, melToHz } from './spectralFeatures';
+
+export type BandScale = 'log' | 'bark' | 'mel';
+
+export interface BandLayout {
+  count: number;
+  scale: BandScale;
+}
+
+export interface FrequencyBand {
+  minHz: number;
+  maxHz: number;
+  startBin: number;
+  endBin: number;
+}
+
+export const BAND_COUNTS = [3, 8, 24];
+export const BAND_SCALES: BandScale[] = ['log', 'bark', 'mel'];
+export const DEFAULT_BAND_LAYOUT: BandLayout = { count: 8, scale: 'bark' };
+
+const MIN_BAND_FREQUENCY = 20;
+const MAX_BAND_FREQUENCY = 20000;
+
+function hzToBark(frequency: number): number {
+  return (26.81 * frequency) / (1960 + frequency) - 0.53;
+}
+
+function barkToHz(bark: number): number {
+  return (1960 * (bark + 0.53)) / (26.28 - bark);
+}
+
+const SCALES: Record<BandScale, { toScale: (hz: number) => number; toHz: (value: number) => number }> = {
+  log: { toScale: Math.log, toHz: Math.exp },
+  bark: { toScale: hzToBark, toHz: barkToHz },
+  mel: { toScale: hzToMel, toHz: melToHz }
+};
+
+export function createBandEdges(layout: BandLayout, sampleRate: number): number[] {
+  const { toScale, toHz } = SCALES[layout.scale];
+  const maxHz = Math.min(MAX_BAND_FREQUENCY, sampleRate / 2);
+  const low = toScale(MIN_BAND_FREQUENCY);
+  const high = toScale(maxHz);
+
+  const edges: number[] = [];
+  for (let i = 0; i <= layout.count; i++) {
+    edges.push(toHz(low + ((high - low) * i) / layout.count));
+  }
+  return edges;
+}
+
+export function createBandsFromEdges(edges: number[], binCount: number, sampleRate: number): FrequencyBand[] {
+  const binWidth = sampleRate / 2 / binCount;
+  const bands: FrequencyBand[] = [];
+
+  for (let i = 0; i < edges.length - 1; i++) {
+    const minHz = edges[i];
+    const maxHz = edges[i + 1];
+    let startBin = Math.min(binCount - 1, Math.floor(minHz / binWidth));
+    let endBin = Math.min(binCount, Math.floor(maxHz / binWidth));
+
+    // Bands narrower than one FFT bin read the bin that contains their centre.
+    if (endBin <= startBin) {
+      startBin = Math.min(binCount - 1, Math.floor((minHz + maxHz) / 2 / binWidth));
+      endBin = startBin + 1;
+    }
+
+    bands.push({ minHz, maxHz, startBin, endBin });
+  }
+
+  return bands;
+}
+
+export function createBands(layout: BandLayout, binCount: number, sampleRate: number): FrequencyBand[] {
+  return createBandsFromEdges(createBandEdges(layout, sampleRate), binCount, sampleRate);
+}
+
+export function measureBands(spectrum: Uint8Array, bands: FrequencyBand[]): number[] {
+  return bands.map(({ startBin, endBin }) => {
+    let sum = 0;
+    for (let i = startBin; i < endBin; i++) {
+      sum += spectrum[i];
+    }
+    return sum / (endBin - startBin);
+  });
+}
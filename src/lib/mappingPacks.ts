@@ -0,0 +1,151 @@
+import { SoundMapping } from './storage';
+import { ANIMATION_STYLES, SHAPE_TYPES } from './mappingStrategies';
+import { ExportUtils } from './exportUtils';
+
+export const MAPPING_PACK_FORMAT = 'sound-visual-mapping-pack';
+export const MAPPING_PACK_VERSION = 1;
+
+export interface MappingPack {
+  format: typeof MAPPING_PACK_FORMAT;
+  version: typeof MAPPING_PACK_VERSION;
+  name?: string;
+  exportedAt: string;
+  mappings: SoundMapping[];
+}
+
+export interface MappingPackValidation {
+  pack: MappingPack | null;
+  errors: string[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+// What to do when an imported mapping has the same signature as one we have.
+export type ConflictResolution = 'keep-existing' | 'use-imported';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  onConflict: ConflictResolution;
+}
+
+export interface ImportResult {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+const REQUIRED_STRINGS = ['soundSignature', 'frequencyRange', 'colorPrimary', 'colorSecondary'] as const;
+const OPTIONAL_BOOLEANS = ['locked', 'pinned'] as const;
+const OPTIONAL_COUNTS = ['clusterSize', 'hitCount'] as const;
+const OPTIONAL_DATES = ['createdAt', 'lastHitAt'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Usage stats belong to the machine they were collected on.
+export function createMappingPack(mappings: SoundMapping[], name?: string): MappingPack {
+  return {
+    format: MAPPING_PACK_FORMAT,
+    version: MAPPING_PACK_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    mappings: mappings.map(mapping => {
+      const exported = { ...mapping };
+      delete exported.hitCount;
+      delete exported.lastHitAt;
+      return exported;
+    })
+  };
+}
+
+export function downloadMappingPack(pack: MappingPack): void {
+  ExportUtils.exportJson(pack, pack.name || 'mapping-pack');
+}
+
+function validateMapping(mapping: unknown, path: string, errors: string[]): void {
+  if (!isObject(mapping)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  REQUIRED_STRINGS.forEach(key => {
+    if (typeof mapping[key] !== 'string') errors.push(`${path}.${key}: must be a string`);
+  });
+
+  const visualTypes = Object.keys(SHAPE_TYPES);
+  const { visualType, shapeType, animationStyle, sizeBase, opacityBase, featureVector } = mapping;
+  if (typeof visualType !== 'string' || !visualTypes.includes(visualType)) {
+    errors.push(`${path}.visualType: unknown visualType ${JSON.stringify(visualType)}`);
+  } else if (typeof shapeType !== 'string' || !SHAPE_TYPES[visualType as SoundMapping['visualType']].includes(shapeType)) {
+    errors.push(`${path}.shapeType: unknown shapeType ${JSON.stringify(shapeType)} for ${visualType}`);
+  }
+  if (typeof animationStyle !== 'string' || !ANIMATION_STYLES.includes(animationStyle)) {
+    errors.push(`${path}.animationStyle: unknown animationStyle ${JSON.stringify(animationStyle)}`);
+  }
+  if (typeof sizeBase !== 'number' || typeof opacityBase !== 'number') {
+    errors.push(`${path}: sizeBase and opacityBase must be numbers`);
+  }
+  if (featureVector !== undefined && (!Array.isArray(featureVector) || !featureVector.every(Number.isFinite))) {
+    errors.push(`${path}.featureVector: must be an array of numbers`);
+  }
+
+  OPTIONAL_BOOLEANS.forEach(key => {
+    if (mapping[key] !== undefined && typeof mapping[key] !== 'boolean') errors.push(`${path}.${key}: must be true or false`);
+  });
+  OPTIONAL_COUNTS.forEach(key => {
+    const value = mapping[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      errors.push(`${path}.${key}: must be a whole number of at least 0`);
+    }
+  });
+  OPTIONAL_DATES.forEach(key => {
+    const value = mapping[key];
+    if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+      errors.push(`${path}.${key}: must be an ISO date string`);
+    }
+  });
+  if (mapping.strategy !== undefined && typeof mapping.strategy !== 'string') {
+    errors.push(`${path}.strategy: must be a string`);
+  }
+}
+
+export function parseMappingPack(text: string): MappingPackValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return { pack: null, errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+
+  if (!isObject(value) || value.format !== MAPPING_PACK_FORMAT) {
+    return { pack: null, errors: ['This file is not a mapping pack'] };
+  }
+  if (value.version !== MAPPING_PACK_VERSION) {
+    return { pack: null, errors: [`Unsupported pack version ${JSON.stringify(value.version)}`] };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(value.mappings)) {
+    errors.push('mappings: must be an array');
+  } else {
+    value.mappings.forEach((mapping, index) => validateMapping(mapping, `mappings[${index}]`, errors));
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  // Hand-written packs may leave out createdAt; date those mappings now.
+  const pack = value as unknown as MappingPack;
+  const importedAt = new Date().toISOString();
+  return {
+    pack: { ...pack, mappings: pack.mappings.map(mapping => ({ ...mapping, createdAt: mapping.createdAt ?? importedAt })) },
+    errors
+  };
+}
+
+// Imported mappings that share a signature with one already in the library.
+export function findPackConflicts(existing: SoundMapping[], pack: MappingPack): SoundMapping[] {
+  const signatures = new Set(existing.map(mapping => mapping.soundSignature));
+  const imported = new Map(pack.mappings.map(mapping => [mapping.soundSignature, mapping]));
+  return Array.from(imported.values()).filter(mapping => signatures.has(mapping.soundSignature));
+}
@@ -0,0 +1,283 @@
+import { SoundMapping } from './storage';
+import { AudioFeatures } from './featureExtractor';
+import { PaletteTheme, pickPaletteColors } from './palettes';
+import {
+  ANIMATION_STYLES,
+  SHAPE_TYPES,
+  buildMapping,
+  createSeededRandom,
+  hashSignature
+} from './mappingStrategies';
+import { ExportUtils } from './exportUtils';
+
+export const RULES_STRATEGY_ID = 'rules';
+export const RULE_SET_VERSION = 1;
+
+export const RULE_NUMERIC_FEATURES = [
+  'amplitude',
+  'frequency',
+  'pitchHz',
+  'pitchConfidence',
+  'lowFreq',
+  'midFreq',
+  'highFreq',
+  'spectralCentroid',
+  'spectralRolloff',
+  'spectralFlatness',
+  'zeroCrossingRate',
+  'onsetStrength',
+  'pan',
+  'bpm'
+] as const;
+export const RULE_BOOLEAN_FEATURES = ['onset', 'beat'] as const;
+
+type NumericFeature = typeof RULE_NUMERIC_FEATURES[number];
+type BooleanFeature = typeof RULE_BOOLEAN_FEATURES[number];
+
+export interface RuleComparison {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export type RuleCondition =
+  Partial<Record<NumericFeature, RuleComparison>> &
+  Partial<Record<BooleanFeature, boolean>>;
+
+export interface RuleAction {
+  visualType: SoundMapping['visualType'];
+  shapeType?: string;
+  animationStyle?: string;
+  palette?: string;
+  colorPrimary?: string;
+  colorSecondary?: string;
+  sizeBase?: number;
+  opacityBase?: number;
+}
+
+export interface MappingRule {
+  name?: string;
+  when: RuleCondition;
+  then: RuleAction;
+}
+
+export interface MappingRuleSet {
+  version: typeof RULE_SET_VERSION;
+  name?: string;
+  rules: MappingRule[];
+}
+
+export interface RuleSetValidation {
+  ruleSet: MappingRuleSet | null;
+  errors: string[];
+}
+
+export const RULE_PALETTES: Record<string, PaletteTheme> = {
+  warm: { kind: 'analogous', hue: 20 },
+  cool: { kind: 'analogous', hue: 210 },
+  forest: { kind: 'analogous', hue: 120 },
+  spectrum: { kind: 'spectrum' },
+  pastel: { kind: 'pastel' },
+  neon: { kind: 'neon' },
+  earth: { kind: 'earth' }
+};
+
+export const EXAMPLE_RULE_SET: MappingRuleSet = {
+  version: RULE_SET_VERSION,
+  name: 'Example',
+  rules: [
+    {
+      name: 'Loud bass',
+      when: { lowFreq: { gt: 180 }, amplitude: { gt: 0.5 } },
+      then: { visualType: 'organic', shapeType: 'blob', palette: 'warm' }
+    },
+    {
+      name: 'Hits',
+      when: { onset: true, spectralFlatness: { gt: 0.4 } },
+      then: { visualType: 'particle', shapeType: 'burst', animationStyle: 'expand', palette: 'neon' }
+    }
+  ]
+};
+
+const COMPARISON_KEYS = ['gt', 'gte', 'lt', 'lte'];
+const ACTION_KEYS = [
+  'visualType', 'shapeType', 'animationStyle', 'palette', 'colorPrimary', 'colorSecondary', 'sizeBase', 'opacityBase'
+];
+const COLOR_PATTERN = /^(#[0-9a-f]{6}|hsl\(\s*[\d.]+,\s*[\d.]+%,\s*[\d.]+%\s*\))$/i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = (values: readonly string[]) => values.join(', ');
+
+function validateCondition(when: unknown, path: string, errors: string[]): void {
+  if (!isObject(when)) {
+    errors.push(`${path}: must be an object of feature conditions`);
+    return;
+  }
+
+  Object.entries(when).forEach(([feature, test]) => {
+    const featurePath = `${path}.${feature}`;
+
+    if ((RULE_BOOLEAN_FEATURES as readonly string[]).includes(feature)) {
+      if (typeof test !== 'boolean') errors.push(`${featurePath}: must be true or false`);
+      return;
+    }
+
+    if (!(RULE_NUMERIC_FEATURES as readonly string[]).includes(feature)) {
+      errors.push(`${featurePath}: unknown feature (expected one of ${oneOf([...RULE_NUMERIC_FEATURES, ...RULE_BOOLEAN_FEATURES])})`);
+      return;
+    }
+
+    if (!isObject(test) || Object.keys(test).length === 0) {
+      errors.push(`${featurePath}: must be a comparison such as { "gt": 0.5 }`);
+      return;
+    }
+
+    Object.entries(test).forEach(([operator, value]) => {
+      if (!COMPARISON_KEYS.includes(operator)) {
+        errors.push(`${featurePath}.${operator}: unknown comparison (expected one of ${oneOf(COMPARISON_KEYS)})`);
+      } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${featurePath}.${operator}: must be a number`);
+      }
+    });
+  });
+}
+
+function validateAction(then: unknown, path: string, errors: string[]): void {
+  if (!isObject(then)) {
+    errors.push(`${path}: must be an object describing the look`);
+    return;
+  }
+
+  Object.keys(then).forEach(key => {
+    if (!ACTION_KEYS.includes(key)) errors.push(`${path}.${key}: unknown property (expected one of ${oneOf(ACTION_KEYS)})`);
+  });
+
+  const visualTypes = Object.keys(SHAPE_TYPES);
+  const { visualType, shapeType, animationStyle, palette, sizeBase, opacityBase } = then;
+
+  if (typeof visualType !== 'string' || !visualTypes.includes(visualType)) {
+    errors.push(`${path}.visualType: unknown visualType ${JSON.stringify(visualType)} (expected one of ${oneOf(visualTypes)})`);
+  } else if (shapeType !== undefined) {
+    const shapes = SHAPE_TYPES[visualType as SoundMapping['visualType']];
+    if (typeof shapeType !== 'string' || !shapes.includes(shapeType)) {
+      errors.push(`${path}.shapeType: unknown shapeType ${JSON.stringify(shapeType)} for ${visualType} (expected one of ${oneOf(shapes)})`);
+    }
+  }
+
+  if (animationStyle !== undefined && (typeof animationStyle !== 'string' || !ANIMATION_STYLES.includes(animationStyle))) {
+    errors.push(`${path}.animationStyle: unknown animationStyle ${JSON.stringify(animationStyle)} (expected one of ${oneOf(ANIMATION_STYLES)})`);
+  }
+  if (palette !== undefined && (typeof palette !== 'string' || !(palette in RULE_PALETTES))) {
+    errors.push(`${path}.palette: unknown palette ${JSON.stringify(palette)} (expected one of ${oneOf(Object.keys(RULE_PALETTES))})`);
+  }
+  (['colorPrimary', 'colorSecondary'] as const).forEach(key => {
+    const color = then[key];
+    if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+      errors.push(`${path}.${key}: must be a #rrggbb or hsl() color`);
+    }
+  });
+  if (sizeBase !== undefined && (typeof sizeBase !== 'number' || sizeBase <= 0)) {
+    errors.push(`${path}.sizeBase: must be a positive number`);
+  }
+  if (opacityBase !== undefined && (typeof opacityBase !== 'number' || opacityBase < 0 || opacityBase > 1)) {
+    errors.push(`${path}.opacityBase: must be a number between 0 and 1`);
+  }
+}
+
+// Collects every problem rather than stopping at the first, so a rule file
+// can be fixed in one pass.
+export function validateRuleSet(value: unknown): RuleSetValidation {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { ruleSet: null, errors: ['Rule file must be a JSON object with a "rules" array'] };
+  }
+  if (value.version !== RULE_SET_VERSION) {
+    errors.push(`version: must be ${RULE_SET_VERSION}`);
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    errors.push('name: must be a string');
+  }
+  if (!Array.isArray(value.rules)) {
+    errors.push('rules: must be an array');
+  } else {
+    value.rules.forEach((rule, index) => {
+      const path = `rules[${index}]`;
+      if (!isObject(rule)) {
+        errors.push(`${path}: must be an object with "when" and "then"`);
+        return;
+      }
+      if (rule.name !== undefined && typeof rule.name !== 'string') {
+        errors.push(`${path}.name: must be a string`);
+      }
+      validateCondition(rule.when, `${path}.when`, errors);
+      validateAction(rule.then, `${path}.then`, errors);
+    });
+  }
+
+  return { ruleSet: errors.length === 0 ? value as unknown as MappingRuleSet : null, errors };
+}
+
+export function parseRuleSet(text: string): RuleSetValidation {
+  try {
+    return validateRuleSet(JSON.parse(text));
+  } catch (err) {
+    return { ruleSet: null, errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+}
+
+export function serializeRuleSet(ruleSet: MappingRuleSet): string {
+  return JSON.stringify(ruleSet, null, 2);
+}
+
+export function downloadRuleSet(ruleSet: MappingRuleSet): void {
+  ExportUtils.exportJson(ruleSet, ruleSet.name || 'mapping-rules');
+}
+
+function testComparison(value: number, test: RuleComparison): boolean {
+  return (test.gt === undefined || value > test.gt) &&
+    (test.gte === undefined || value >= test.gte) &&
+    (test.lt === undefined || value < test.lt) &&
+    (test.lte === undefined || value <= test.lte);
+}
+
+// Derived from what the rule tests and does, not its position or name, so
+// reordering or renaming rules keeps the mappings they made.
+export function getRuleId(rule: MappingRule): string {
+  return hashSignature(JSON.stringify([rule.when, rule.then])).toString(36);
+}
+
+// Rules are tried in order and the first whose conditions all hold wins.
+export function matchRule(ruleSet: MappingRuleSet, audioFeatures: AudioFeatures): MappingRule | null {
+  return ruleSet.rules.find(rule =>
+    Object.entries(rule.when).every(([feature, test]) =>
+      typeof test === 'boolean'
+        ? audioFeatures[feature as BooleanFeature] === test
+        : testComparison(audioFeatures[feature as NumericFeature], test as RuleComparison)
+    )
+  ) ?? null;
+}
+
+// Anything the rule leaves open is filled in from the signature seed, so the
+// same sound still gets the same look from the same rule.
+export function createRuleMapping(rule: MappingRule, audioFeatures: AudioFeatures, featureVector: number[]): SoundMapping {
+  const rng = createSeededRandom(hashSignature(audioFeatures.signature));
+  const { then } = rule;
+  const shapes = SHAPE_TYPES[then.visualType];
+  const bandTotal = audioFeatures.lowFreq + audioFeatures.midFreq + audioFeatures.highFreq;
+  const tone = bandTotal > 0 ? (audioFeatures.highFreq - audioFeatures.lowFreq) / (2 * bandTotal) + 0.5 : 0.5;
+  const colors = pickPaletteColors(RULE_PALETTES[then.palette ?? 'spectrum'], rng, tone);
+  const frequencyNorm = Math.min(audioFeatures.frequency / 2000, 1);
+
+  return buildMapping(audioFeatures, featureVector, {
+    visualType: then.visualType,
+    shapeType: then.shapeType ?? shapes[Math.floor(rng() * shapes.length)],
+    animationStyle: then.animationStyle ?? ANIMATION_STYLES[Math.floor(rng() * ANIMATION_STYLES.length)],
+    colorPrimary: then.colorPrimary ?? colors.primary,
+    colorSecondary: then.colorSecondary ?? colors.secondary,
+    sizeBase: then.sizeBase ?? 10 + (frequencyNorm * 40) + (rng() * 20),
+    opacityBase: then.opacityBase ?? 0.5 + (rng() * 0.3)
+  });
+}
@@ -0,0 +1,252 @@
+import { SoundMapping } from './storage';
+import { AudioFeatures } from './featureExtractor';
+import { formatHsl } from './colorUtils';
+import { detectNote, pitchToColors } from './pitchColors';
+
+export const SHAPE_TYPES: Record<SoundMapping['visualType'], string[]> = {
+  geometric: ['circle', 'square', 'triangle', 'hexagon', 'star', 'diamond'],
+  particle: ['dots', 'sparkles', 'burst', 'trail', 'spiral'],
+  brush: ['soft', 'textured', 'splatter', 'calligraphy', 'spray'],
+  organic: ['blob', 'wave', 'tentacle', 'fractal', 'flow']
+};
+export const ANIMATION_STYLES = ['pulse', 'rotate', 'expand', 'fade', 'oscillate', 'drift'];
+
+export interface MappingStrategy {
+  id: string;
+  name: string;
+  description: string;
+  createMapping(audioFeatures: AudioFeatures, featureVector: number[]): SoundMapping;
+}
+
+export const DEFAULT_MAPPING_STRATEGY = 'random-seeded';
+
+type Timbre = 'tonal' | 'breathy' | 'percussive';
+const TIMBRE_VISUAL_TYPES: Record<Timbre, SoundMapping['visualType'][]> = {
+  tonal: ['geometric', 'organic'],
+  breathy: ['organic', 'brush'],
+  percussive: ['particle', 'brush']
+};
+
+type MappingLook = Pick<
+  SoundMapping,
+  'visualType' | 'shapeType' | 'colorPrimary' | 'colorSecondary' | 'animationStyle' | 'sizeBase' | 'opacityBase'
+>;
+
+const strategies = new Map<string, MappingStrategy>();
+
+export function registerMappingStrategy(strategy: MappingStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+export function getMappingStrategy(id: string): MappingStrategy | undefined {
+  return strategies.get(id);
+}
+
+export function getMappingStrategies(): MappingStrategy[] {
+  return Array.from(strategies.values());
+}
+
+export function hashSignature(signature: string): number {
+  let hash = 0;
+  for (let i = 0; i < signature.length; i++) {
+    const char = signature.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+export function createSeededRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 9301 + 49297) % 233280;
+    return value / 233280;
+  };
+}
+
+export function getFrequencyRange(freq: number): string {
+  if (freq < 250) return 'sub-bass';
+  if (freq < 500) return 'bass';
+  if (freq < 2000) return 'midrange';
+  if (freq < 6000) return 'upper-mid';
+  return 'treble';
+}
+
+export function buildMapping(audioFeatures: AudioFeatures, featureVector: number[], look: MappingLook): SoundMapping {
+  return {
+    id: crypto.randomUUID(),
+    soundSignature: audioFeatures.signature,
+    frequencyRange: getFrequencyRange(audioFeatures.frequency),
+    ...look,
+    featureVector,
+    createdAt: new Date().toISOString()
+  };
+}
+
+function classifyTimbre(audioFeatures: AudioFeatures): Timbre {
+  const { spectralFlatness, zeroCrossingRate, pitchConfidence } = audioFeatures;
+
+  if (spectralFlatness > 0.4 || zeroCrossingRate > 0.3) return 'percussive';
+  if (pitchConfidence >= 0.8 && spectralFlatness < 0.15) return 'tonal';
+  return 'breathy';
+}
+
+function generateColor(rng: () => number, audioFeatures: AudioFeatures): string {
+  const { lowFreq, midFreq, highFreq } = audioFeatures;
+
+  const hue = Math.floor(rng() * 360);
+  const saturation = 60 + Math.floor(rng() * 40);
+
+  let lightness = 50;
+  if (lowFreq > midFreq && lowFreq > highFreq) {
+    lightness = 35 + Math.floor(rng() * 25);
+  } else if (highFreq > lowFreq && highFreq > midFreq) {
+    lightness = 60 + Math.floor(rng() * 25);
+  } else {
+    lightness = 45 + Math.floor(rng() * 20);
+  }
+
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+}
+
+function generateComplementaryColor(primaryColor: string, rng: () => number): string {
+  const hueMatch = primaryColor.match(/hsl\((\d+)/);
+  if (!hueMatch) return primaryColor;
+
+  const primaryHue = parseInt(hueMatch[1]);
+  const hueOffset = 150 + Math.floor(rng() * 60);
+  const newHue = (primaryHue + hueOffset) % 360;
+
+  const satMatch = primaryColor.match(/hsl\(\d+,\s*(\d+)%/);
+  const lightMatch = primaryColor.match(/hsl\(\d+,\s*\d+%,\s*(\d+)%/);
+
+  const saturation = satMatch ? parseInt(satMatch[1]) : 70;
+  const lightness = lightMatch ? parseInt(lightMatch[1]) : 50;
+
+  return `hsl(${newHue}, ${saturation}%, ${lightness}%)`;
+}
+
+function frequencySize(audioFeatures: AudioFeatures, rng: () => number): number {
+  const frequencyNorm = Math.min(audioFeatures.frequency / 2000, 1);
+  return 10 + (frequencyNorm * 40) + (rng() * 20);
+}
+
+const pick = <T>(values: T[], index: number) => values[((index % values.length) + values.length) % values.length];
+
+registerMappingStrategy({
+  id: 'random-seeded',
+  name: 'Random',
+  description: 'Every new sound gets its own look, seeded from its signature.',
+  createMapping(audioFeatures, featureVector) {
+    const rng = createSeededRandom(hashSignature(audioFeatures.signature));
+
+    const visualTypes = TIMBRE_VISUAL_TYPES[classifyTimbre(audioFeatures)];
+    const visualType = visualTypes[Math.floor(rng() * visualTypes.length)];
+    const shapeType = SHAPE_TYPES[visualType][Math.floor(rng() * SHAPE_TYPES[visualType].length)];
+    const animationStyle = ANIMATION_STYLES[Math.floor(rng() * ANIMATION_STYLES.length)];
+
+    const colorPrimary = generateColor(rng, audioFeatures);
+    const colorSecondary = generateComplementaryColor(colorPrimary, rng);
+
+    return buildMapping(audioFeatures, featureVector, {
+      visualType,
+      colorPrimary,
+      colorSecondary,
+      shapeType,
+      sizeBase: frequencySize(audioFeatures, rng),
+      opacityBase: 0.5 + (rng() * 0.3),
+      animationStyle
+    });
+  }
+});
+
+// The note picks the shape and its colors, the octave picks the animation.
+registerMappingStrategy({
+  id: 'pitch-chroma',
+  name: 'Pitch Chroma',
+  description: 'Notes with the same name share a shape and color.',
+  createMapping(audioFeatures, featureVector) {
+    const rng = createSeededRandom(hashSignature(audioFeatures.signature));
+    const note = detectNote(audioFeatures);
+    const pitchClass = note ? note.midi % 12 : 0;
+
+    const visualType = TIMBRE_VISUAL_TYPES[classifyTimbre(audioFeatures)][0];
+    const colors = pitchToColors(audioFeatures);
+    const colorPrimary = colors?.primary ?? generateColor(rng, audioFeatures);
+
+    return buildMapping(audioFeatures, featureVector, {
+      visualType,
+      colorPrimary,
+      colorSecondary: colors?.secondary ?? generateComplementaryColor(colorPrimary, rng),
+      shapeType: pick(SHAPE_TYPES[visualType], pitchClass),
+      sizeBase: frequencySize(audioFeatures, rng),
+      opacityBase: 0.6 + (rng() * 0.2),
+      animationStyle: pick(ANIMATION_STYLES, note ? note.octave : 0)
+    });
+  }
+});
+
+const FREQUENCY_RANGE_RULES: Record<string, Omit<MappingLook, 'colorPrimary' | 'colorSecondary' | 'sizeBase' | 'opacityBase'> & { hue: number }> = {
+  'sub-bass': { visualType: 'organic', shapeType: 'blob', animationStyle: 'pulse', hue: 0 },
+  'bass': { visualType: 'geometric', shapeType: 'hexagon', animationStyle: 'pulse', hue: 25 },
+  'midrange': { visualType: 'geometric', shapeType: 'circle', animationStyle: 'oscillate', hue: 120 },
+  'upper-mid': { visualType: 'brush', shapeType: 'calligraphy', animationStyle: 'drift', hue: 210 },
+  'treble': { visualType: 'particle', shapeType: 'sparkles', animationStyle: 'expand', hue: 280 }
+};
+
+// A fixed table from frequency range to look; percussive sounds always burst.
+registerMappingStrategy({
+  id: 'rule-table',
+  name: 'Rule Table',
+  description: 'Looks follow fixed rules for each frequency range.',
+  createMapping(audioFeatures, featureVector) {
+    const rng = createSeededRandom(hashSignature(audioFeatures.signature));
+    const rule = FREQUENCY_RANGE_RULES[getFrequencyRange(audioFeatures.frequency)];
+    const percussive = classifyTimbre(audioFeatures) === 'percussive';
+    const lightness = 40 + rng() * 25;
+
+    return buildMapping(audioFeatures, featureVector, {
+      visualType: percussive ? 'particle' : rule.visualType,
+      shapeType: percussive ? 'burst' : rule.shapeType,
+      animationStyle: percussive ? 'expand' : rule.animationStyle,
+      colorPrimary: formatHsl({ hue: rule.hue, saturation: 80, lightness }),
+      colorSecondary: formatHsl({ hue: (rule.hue + 30) % 360, saturation: 70, lightness: lightness + 15 }),
+      sizeBase: frequencySize(audioFeatures, rng),
+      opacityBase: 0.7
+    });
+  }
+});
+
+const BRIGHTNESS_BUCKETS = 3;
+
+// Sounds with the same timbre class and brightness share one look, seeded by
+// the cluster rather than the individual signature.
+registerMappingStrategy({
+  id: 'timbre-clusters',
+  name: 'Timbre Clusters',
+  description: 'Sounds with a similar tone color share a look.',
+  createMapping(audioFeatures, featureVector) {
+    const timbre = classifyTimbre(audioFeatures);
+    const brightness = Math.log2(Math.max(audioFeatures.spectralCentroid, 250) / 250);
+    const bucket = Math.min(Math.floor(brightness / 2), BRIGHTNESS_BUCKETS - 1);
+    const rng = createSeededRandom(hashSignature(`${timbre}-${bucket}`));
+
+    const visualTypes = TIMBRE_VISUAL_TYPES[timbre];
+    const visualType = visualTypes[Math.floor(rng() * visualTypes.length)];
+    const shapeType = SHAPE_TYPES[visualType][Math.floor(rng() * SHAPE_TYPES[visualType].length)];
+    const animationStyle = ANIMATION_STYLES[Math.floor(rng() * ANIMATION_STYLES.length)];
+    const colorPrimary = generateColor(rng, audioFeatures);
+    const colorSecondary = generateComplementaryColor(colorPrimary, rng);
+    const opacityBase = 0.5 + (rng() * 0.3);
+
+    return buildMapping(audioFeatures, featureVector, {
+      visualType,
+      colorPrimary,
+      colorSecondary,
+      shapeType,
+      sizeBase: frequencySize(audioFeatures, createSeededRandom(hashSignature(audioFeatures.signature))),
+      opacityBase,
+      animationStyle
+    });
+  }
+});
@@ -0,0 +1,320 @@
+import { AudioFeatures } from './featureExtractor';
+import { AnalysisFrame } from './audioProcessor';
+import { BandLayout, DEFAULT_BAND_LAYOUT, FrequencyBand, createBands, createBandsFromEdges } from './frequencyBands';
+import { frequencyToNote } from './pitchDetection';
+
+interface ActiveNote {
+  note: number;
+  channel: number;
+  velocity: number;
+  releasedAt: number | null;
+  sustained: boolean;
+}
+
+interface ChannelControls {
+  volume: number;
+  expression: number;
+  pan: number;
+  brightness: number;
+  sustain: boolean;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+
+const CC_MODULATION = 1;
+const CC_VOLUME = 7;
+const CC_PAN = 10;
+const CC_EXPRESSION = 11;
+const CC_SUSTAIN = 64;
+const CC_BRIGHTNESS = 74;
+const CC_ALL_NOTES_OFF = 123;
+
+// General MIDI reserves channel 10 for drums.
+const DRUM_CHANNEL = 9;
+const RELEASE_MS = 300;
+const HARMONICS = 4;
+const MFCC_COUNT = 13;
+
+// MIDI has no spectrum, so bands are laid out against a nominal analyser.
+const REFERENCE_SAMPLE_RATE = 44100;
+const REFERENCE_BIN_COUNT = 1024;
+const LOW_MID_HIGH_EDGES = [20, 250, 4000, 20000];
+
+export function midiNoteToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+// Turns note-on/off and controller messages into the same AudioFeatures the
+// audio pipeline produces, so mapping and rendering work unchanged.
+export class MidiSource {
+  readonly kind = 'midi';
+  label = 'MIDI input';
+  private access: MIDIAccess | null = null;
+  private activeNotes: Map<string, ActiveNote> = new Map();
+  private controls: Map<number, ChannelControls> = new Map();
+  private bands: FrequencyBand[] = [];
+  private lowMidHighBands: FrequencyBand[];
+  private lastNote = 60;
+  private lastChannel = 0;
+  private pendingOnset = 0;
+  private pendingBeat = false;
+  private frameListeners: Array<(frame: AnalysisFrame) => void> = [];
+
+  constructor(bandLayout: BandLayout = DEFAULT_BAND_LAYOUT) {
+    this.setBandLayout(bandLayout);
+    this.lowMidHighBands = createBandsFromEdges(LOW_MID_HIGH_EDGES, REFERENCE_BIN_COUNT, REFERENCE_SAMPLE_RATE);
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  async connect(): Promise<void> {
+    this.access = await navigator.requestMIDIAccess();
+
+    if (this.access.inputs.size === 0) {
+      this.disconnect();
+      throw new Error('No MIDI input devices found');
+    }
+
+    this.bindInputs();
+    this.access.onstatechange = () => this.bindInputs();
+  }
+
+  disconnect(): void {
+    if (this.access) {
+      this.access.inputs.forEach(input => {
+        input.onmidimessage = null;
+      });
+      this.access.onstatechange = null;
+      this.access = null;
+    }
+    this.activeNotes.clear();
+    this.controls.clear();
+    this.pendingOnset = 0;
+    this.pendingBeat = false;
+  }
+
+  setBandLayout(layout: BandLayout): void {
+    this.bands = createBands(layout, REFERENCE_BIN_COUNT, REFERENCE_SAMPLE_RATE);
+  }
+
+  getBands(): FrequencyBand[] {
+    return this.bands;
+  }
+
+  // Called with every frame read through getAudioFeatures, so the meters can
+  // follow MIDI input the same way they follow the audio processor.
+  onFrame(callback: (frame: AnalysisFrame) => void): () => void {
+    this.frameListeners.push(callback);
+
+    return () => {
+      this.frameListeners = this.frameListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  // Onset and beat flags are consumed by the read, so call once per frame.
+  getAudioFeatures(): AudioFeatures | null {
+    if (!this.access) return null;
+
+    const now = performance.now();
+    const voices = this.getVoiceLevels(now);
+    const lead = voices[voices.length - 1];
+    const note = lead ? lead.note.note : this.lastNote;
+    const channel = lead ? lead.note.channel : this.lastChannel;
+    const controls = this.getControls(channel);
+    const frequency = midiNoteToFrequency(note);
+    const noteInfo = frequencyToNote(frequency);
+    const isDrum = channel === DRUM_CHANNEL;
+
+    const bands = new Array(this.bands.length).fill(0);
+    const lowMidHigh = [0, 0, 0];
+    const chroma = new Array(12).fill(0);
+    let amplitude = 0;
+
+    for (const { note: voice, level } of voices) {
+      const voiceFrequency = midiNoteToFrequency(voice.note);
+      amplitude = Math.max(amplitude, level);
+      chroma[voice.note % 12] = Math.max(chroma[voice.note % 12], level);
+
+      for (let harmonic = 1; harmonic <= HARMONICS; harmonic++) {
+        const value = Math.round((level / harmonic) * 255);
+        this.addToBands(bands, this.bands, voiceFrequency * harmonic, value);
+        this.addToBands(lowMidHigh, this.lowMidHighBands, voiceFrequency * harmonic, value);
+      }
+    }
+
+    const chromaMax = Math.max(...chroma);
+    const spectralCentroid = frequency * (1 + controls.brightness * 3);
+    const onsetStrength = this.pendingOnset;
+    const beat = this.pendingBeat;
+    this.pendingOnset = 0;
+    this.pendingBeat = false;
+
+    const features: AudioFeatures = {
+      frequency,
+      amplitude,
+      lowFreq: lowMidHigh[0],
+      midFreq: lowMidHigh[1],
+      highFreq: lowMidHigh[2],
+      bands,
+      channelLevels: [],
+      pan: controls.pan,
+      pitchHz: lead && !isDrum ? frequency : 0,
+      pitchConfidence: lead && !isDrum ? 1 : 0,
+      note: lead && noteInfo && !isDrum ? `${noteInfo.name}${noteInfo.octave}` : null,
+      cents: 0,
+      onset: onsetStrength > 0,
+      onsetStrength,
+      beat,
+      bpm: 0,
+      spectralCentroid,
+      spectralRolloff: Math.min(spectralCentroid * 2, REFERENCE_SAMPLE_RATE / 2),
+      spectralFlatness: isDrum ? 0.5 : 0.05 + controls.brightness * 0.1,
+      zeroCrossingRate: Math.min((2 * frequency) / REFERENCE_SAMPLE_RATE, 1),
+      chroma: chromaMax > 0 ? chroma.map(value => value / chromaMax) : chroma,
+      mfcc: new Array(MFCC_COUNT).fill(0),
+      signature: `midi-${channel + 1}-${note}`
+    };
+
+    // MIDI has no spectrum to show; the level stands in for the analyser's.
+    const frame: AnalysisFrame = { level: amplitude, peak: amplitude, spectrum: new Uint8Array(0), features, timestamp: now };
+    this.frameListeners.forEach(listener => listener(frame));
+
+    return features;
+  }
+
+  get active(): boolean {
+    return this.access !== null;
+  }
+
+  private bindInputs(): void {
+    if (!this.access) return;
+
+    const names: string[] = [];
+    this.access.inputs.forEach(input => {
+      input.onmidimessage = this.handleMessage;
+      if (input.name) names.push(input.name);
+    });
+    this.label = names.length > 0 ? names.join(', ') : 'MIDI input';
+  }
+
+  private handleMessage = (event: MIDIMessageEvent): void => {
+    const data = event.data;
+    if (!data || data.length < 3) return;
+
+    const status = data[0] & 0xf0;
+    const channel = data[0] & 0x0f;
+
+    if (status === NOTE_ON && data[2] > 0) {
+      this.noteOn(channel, data[1], data[2]);
+    } else if (status === NOTE_OFF || status === NOTE_ON) {
+      this.noteOff(channel, data[1]);
+    } else if (status === CONTROL_CHANGE) {
+      this.controlChange(channel, data[1], data[2]);
+    }
+  };
+
+  private noteOn(channel: number, note: number, velocity: number): void {
+    const key = `${channel}:${note}`;
+    // Re-insert so the newest note is last and becomes the lead voice.
+    this.activeNotes.delete(key);
+    this.activeNotes.set(key, { note, channel, velocity, releasedAt: null, sustained: false });
+
+    this.lastNote = note;
+    this.lastChannel = channel;
+    this.pendingOnset = Math.max(this.pendingOnset, velocity / 127);
+    if (channel === DRUM_CHANNEL) {
+      this.pendingBeat = true;
+    }
+  }
+
+  private noteOff(channel: number, note: number): void {
+    const active = this.activeNotes.get(`${channel}:${note}`);
+    if (!active || active.releasedAt !== null) return;
+
+    if (this.getControls(channel).sustain) {
+      active.sustained = true;
+    } else {
+      active.releasedAt = performance.now();
+    }
+  }
+
+  private controlChange(channel: number, controller: number, value: number): void {
+    const controls = this.getControls(channel);
+
+    switch (controller) {
+      case CC_MODULATION:
+      case CC_BRIGHTNESS:
+        controls.brightness = value / 127;
+        break;
+      case CC_VOLUME:
+        controls.volume = value / 127;
+        break;
+      case CC_EXPRESSION:
+        controls.expression = value / 127;
+        break;
+      case CC_PAN:
+        controls.pan = Math.max(-1, (value - 64) / 63);
+        break;
+      case CC_SUSTAIN:
+        controls.sustain = value >= 64;
+        if (!controls.sustain) {
+          this.releaseSustained(channel);
+        }
+        break;
+      case CC_ALL_NOTES_OFF:
+        this.activeNotes.forEach((active, key) => {
+          if (active.channel === channel) this.activeNotes.delete(key);
+        });
+        break;
+    }
+  }
+
+  private releaseSustained(channel: number): void {
+    const now = performance.now();
+    this.activeNotes.forEach(active => {
+      if (active.channel === channel && active.sustained) {
+        active.sustained = false;
+        active.releasedAt = now;
+      }
+    });
+  }
+
+  private getControls(channel: number): ChannelControls {
+    let controls = this.controls.get(channel);
+    if (!controls) {
+      controls = { volume: 1, expression: 1, pan: 0, brightness: 0, sustain: false };
+      this.controls.set(channel, controls);
+    }
+    return controls;
+  }
+
+  // Released notes fade out over RELEASE_MS rather than vanishing, then are dropped.
+  private getVoiceLevels(now: number): Array<{ note: ActiveNote; level: number }> {
+    const voices: Array<{ note: ActiveNote; level: number }> = [];
+
+    this.activeNotes.forEach((active, key) => {
+      const release = active.releasedAt === null ? 1 : 1 - (now - active.releasedAt) / RELEASE_MS;
+      if (release <= 0) {
+        this.activeNotes.delete(key);
+        return;
+      }
+
+      const controls = this.getControls(active.channel);
+      const level = (active.velocity / 127) * controls.volume * controls.expression * release;
+      voices.push({ note: active, level });
+    });
+
+    return voices;
+  }
+
+  private addToBands(values: number[], bands: FrequencyBand[], frequency: number, value: number): void {
+    const index = bands.findIndex(band => frequency >= band.minHz && frequency < band.maxHz);
+    if (index >= 0) {
+      values[index] = Math.max(values[index], value);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { AnalyserSettings } from './audioProcessor';
+import { FeatureExtractor, createExtractorConfig, measureChannelLevels } from './featureExtractor';
+import { BandLayout } from './frequencyBands';
+import { VisualMapper } from './visualMapper';
+import { RenderOptions, VisualRenderer } from './visualRenderer';
+
+export interface OfflineRenderSettings {
+  width: number;
+  height: number;
+  frameRate: number;
+  // Width of the live canvas; shapes are scaled so the export keeps its look.
+  referenceWidth: number;
+  renderOptions: RenderOptions;
+  analyserSettings: AnalyserSettings;
+  bandLayout: BandLayout;
+}
+
+export interface OfflineRenderProgress {
+  frame: number;
+  totalFrames: number;
+}
+
+export interface OfflineRenderCallbacks {
+  onProgress?: (progress: OfflineRenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+export const OFFLINE_FRAME_RATES = [30, 60];
+
+const CHANNEL_COUNT = 2;
+const ANALYSIS_SAMPLE_RATE = 44100;
+// Frames rendered between yields to the event loop, to keep the page responsive.
+const FRAMES_PER_CHUNK = 60;
+
+export class OfflineRenderer {
+  static async renderFile(
+    file: File,
+    mapper: VisualMapper,
+    settings: OfflineRenderSettings,
+    callbacks: OfflineRenderCallbacks = {}
+  ): Promise<HTMLCanvasElement> {
+    const audioBuffer = await this.decode(file);
+    const { frameRate, width, height } = settings;
+    // Exporting should not grow the library or change its hit counts.
+    const renderMapper = mapper.createReadOnlyCopy();
+    const { sampleRate } = audioBuffer;
+
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c));
+    const extractor = new FeatureExtractor(createExtractorConfig(sampleRate, {
+      ...settings.analyserSettings,
+      bandLayout: settings.bandLayout
+    }));
+    const { fftSize } = extractor.getConfig();
+    const frameSamples = new Float32Array(fftSize);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    let currentTime = 0;
+    const renderer = new VisualRenderer(canvas, {
+      clock: () => currentTime,
+      scale: width / settings.referenceWidth
+    });
+    // A finished artwork keeps everything that was painted.
+    const renderOptions: RenderOptions = { ...settings.renderOptions, fadeEnabled: false };
+
+    const samplesPerFrame = sampleRate / frameRate;
+    const totalFrames = Math.ceil(audioBuffer.length / samplesPerFrame);
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (callbacks.signal?.aborted) {
+        throw new DOMException('Offline render cancelled', 'AbortError');
+      }
+
+      const end = Math.min(Math.round((frame + 1) * samplesPerFrame), audioBuffer.length);
+      this.mixWindow(channels, end, frameSamples);
+
+      currentTime = (frame * 1000) / frameRate;
+      const channelLevels = measureChannelLevels(channels, Math.max(0, end - Math.round(samplesPerFrame)), end);
+      const { features } = extractor.process(frameSamples, currentTime, channelLevels);
+
+      const mapping = renderMapper.getOrCreateMapping(features);
+      if (renderer.render(mapping, features, renderOptions)) {
+        renderMapper.recordHit(mapping.id);
+      }
+
+      if (frame % FRAMES_PER_CHUNK === 0) {
+        callbacks.onProgress?.({ frame, totalFrames });
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    callbacks.onProgress?.({ frame: totalFrames, totalFrames });
+    return canvas;
+  }
+
+  // Decodes the file at the analysis rate and renders it through an
+  // OfflineAudioContext so the channel layout matches the live graph (mono is
+  // upmixed to both channels).
+  private static async decode(file: File): Promise<AudioBuffer> {
+    const data = await file.arrayBuffer();
+    const decoded = await new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE).decodeAudioData(data);
+
+    const context = new OfflineAudioContext(CHANNEL_COUNT, decoded.length, ANALYSIS_SAMPLE_RATE);
+    const source = context.createBufferSource();
+    source.buffer = decoded;
+    source.connect(context.destination);
+    source.start();
+
+    return context.startRendering();
+  }
+
+  // Fills the analysis window with the mono mix ending at `end`, zero-padding
+  // before the start of the track.
+  private static mixWindow(channels: Float32Array[], end: number, target: Float32Array): void {
+    const start = end - target.length;
+
+    for (let i = 0; i < target.length; i++) {
+      const index = start + i;
+      if (index < 0) {
+        target[i] = 0;
+        continue;
+      }
+
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        sample += channels[c][index];
+      }
+      target[i] = sample / channels.length;
+    }
+  }
+}
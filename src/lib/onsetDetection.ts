@@ -0,0 +1,147 @@
+export interface RhythmFrame {
+  onset: boolean;
+  onsetStrength: number;
+  beat: boolean;
+  bpm: number;
+}
+
+const FLUX_HISTORY_SIZE = 43;
+const THRESHOLD_MULTIPLIER = 1.5;
+const THRESHOLD_OFFSET = 0.004;
+const MIN_ONSET_INTERVAL_MS = 100;
+const ONSET_WINDOW_MS = 8000;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const BPM_SMOOTHING = 0.2;
+const BEAT_ALIGNMENT_TOLERANCE = 0.2;
+
+export class OnsetDetector {
+  private previousSpectrum: Float32Array | null = null;
+  private fluxHistory: number[] = [];
+  private onsetTimes: number[] = [];
+  private lastOnsetTime = -Infinity;
+  private bpm = 0;
+  private nextBeatTime = 0;
+
+  process(spectrum: Uint8Array, timestamp: number): RhythmFrame {
+    const flux = this.calculateSpectralFlux(spectrum);
+    const threshold = this.calculateThreshold();
+
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > FLUX_HISTORY_SIZE) {
+      this.fluxHistory.shift();
+    }
+
+    const onset = flux > threshold && timestamp - this.lastOnsetTime >= MIN_ONSET_INTERVAL_MS;
+    const onsetStrength = threshold > 0 ? Math.min(flux / threshold, 4) / 4 : 0;
+
+    if (onset) {
+      this.lastOnsetTime = timestamp;
+      this.onsetTimes.push(timestamp);
+      this.updateTempo(timestamp);
+    }
+
+    return {
+      onset,
+      onsetStrength: onset ? onsetStrength : 0,
+      beat: this.trackBeat(timestamp, onset),
+      bpm: Math.round(this.bpm)
+    };
+  }
+
+  reset(): void {
+    this.previousSpectrum = null;
+    this.fluxHistory = [];
+    this.onsetTimes = [];
+    this.lastOnsetTime = -Infinity;
+    this.bpm = 0;
+    this.nextBeatTime = 0;
+  }
+
+  private calculateSpectralFlux(spectrum: Uint8Array): number {
+    const current = new Float32Array(spectrum.length);
+    for (let i = 0; i < spectrum.length; i++) {
+      current[i] = spectrum[i] / 255;
+    }
+
+    let flux = 0;
+    if (this.previousSpectrum && this.previousSpectrum.length === current.length) {
+      for (let i = 0; i < current.length; i++) {
+        const rise = current[i] - this.previousSpectrum[i];
+        if (rise > 0) flux += rise;
+      }
+      flux /= current.length;
+    }
+
+    this.previousSpectrum = current;
+    return flux;
+  }
+
+  private calculateThreshold(): number {
+    if (this.fluxHistory.length < 4) return Infinity;
+
+    const sorted = [...this.fluxHistory].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return median * THRESHOLD_MULTIPLIER + THRESHOLD_OFFSET;
+  }
+
+  private updateTempo(timestamp: number): void {
+    this.onsetTimes = this.onsetTimes.filter(t => timestamp - t <= ONSET_WINDOW_MS);
+    if (this.onsetTimes.length < 4) return;
+
+    // Vote for tempo candidates using every inter-onset interval in the
+    // window, folded into the MIN_BPM..MAX_BPM octave.
+    const votes = new Map<number, number>();
+    for (let i = 0; i < this.onsetTimes.length; i++) {
+      for (let j = i + 1; j < this.onsetTimes.length; j++) {
+        const interval = this.onsetTimes[j] - this.onsetTimes[i];
+        if (interval <= 0) continue;
+
+        let candidate = 60000 / interval;
+        while (candidate < MIN_BPM) candidate *= 2;
+        while (candidate > MAX_BPM) candidate /= 2;
+
+        const bucket = Math.round(candidate);
+        const weight = 1 / (j - i);
+        votes.set(bucket, (votes.get(bucket) ?? 0) + weight);
+        votes.set(bucket - 1, (votes.get(bucket - 1) ?? 0) + weight * 0.5);
+        votes.set(bucket + 1, (votes.get(bucket + 1) ?? 0) + weight * 0.5);
+      }
+    }
+
+    let bestBpm = 0;
+    let bestVotes = 0;
+    votes.forEach((count, bpm) => {
+      if (count > bestVotes) {
+        bestVotes = count;
+        bestBpm = bpm;
+      }
+    });
+
+    if (bestBpm === 0) return;
+    this.bpm = this.bpm === 0 ? bestBpm : this.bpm + (bestBpm - this.bpm) * BPM_SMOOTHING;
+  }
+
+  private trackBeat(timestamp: number, onset: boolean): boolean {
+    if (this.bpm === 0) return false;
+
+    const period = 60000 / this.bpm;
+
+    if (onset) {
+      const offset = Math.abs(timestamp - this.nextBeatTime);
+      if (this.nextBeatTime === 0 || offset <= period * BEAT_ALIGNMENT_TOLERANCE) {
+        this.nextBeatTime = timestamp + period;
+        return true;
+      }
+    }
+
+    if (timestamp >= this.nextBeatTime) {
+      while (this.nextBeatTime <= timestamp) {
+        this.nextBeatTime += period;
+      }
+      return true;
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,146 @@
+import { HslColor, formatHsl, parseColor } from './colorUtils';
+
+export type PaletteTheme =
+  | { kind: 'spectrum' }
+  | { kind: 'monochrome' | 'analogous' | 'triadic'; hue: number }
+  | { kind: 'pastel' | 'neon' | 'earth' }
+  | { kind: 'swatches'; colors: string[] };
+
+export type PaletteKind = PaletteTheme['kind'];
+
+export const PALETTE_KINDS: { kind: PaletteKind; label: string }[] = [
+  { kind: 'spectrum', label: 'Spectrum' },
+  { kind: 'monochrome', label: 'Mono' },
+  { kind: 'analogous', label: 'Analogous' },
+  { kind: 'triadic', label: 'Triadic' },
+  { kind: 'pastel', label: 'Pastel' },
+  { kind: 'neon', label: 'Neon' },
+  { kind: 'earth', label: 'Earth' },
+  { kind: 'swatches', label: 'Custom' }
+];
+
+export const DEFAULT_PALETTE: PaletteTheme = { kind: 'spectrum' };
+
+export interface PaletteColors {
+  primary: string;
+  secondary: string;
+}
+
+const NEON_HUES = [300, 320, 180, 190, 120, 60, 30];
+const EARTH_HUES = [20, 30, 40, 50, 80, 100, 120];
+
+const IMAGE_SAMPLE_SIZE = 64;
+// Buckets that are closer than this in RGB space are treated as one color.
+const MIN_SWATCH_DISTANCE = 48;
+
+const wrapHue = (hue: number) => ((hue % 360) + 360) % 360;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+const pick = <T>(values: T[], rng: () => number) => values[Math.floor(rng() * values.length)];
+
+// Picks a primary and secondary color from the theme. `tone` runs from 0 for
+// dark, bass-heavy sounds to 1 for bright ones, so themes keep that contrast.
+export function pickPaletteColors(theme: PaletteTheme, rng: () => number, tone: number): PaletteColors {
+  const lightness = (min: number, max: number) => min + tone * (max - min);
+  let primary: HslColor;
+  let secondary: HslColor;
+
+  switch (theme.kind) {
+    case 'spectrum':
+      primary = { hue: rng() * 360, saturation: 60 + rng() * 40, lightness: lightness(35, 80) };
+      secondary = { ...primary, hue: wrapHue(primary.hue + 150 + rng() * 60) };
+      break;
+    case 'monochrome':
+      primary = { hue: wrapHue(theme.hue + rng() * 16 - 8), saturation: 50 + rng() * 30, lightness: lightness(25, 75) };
+      secondary = { ...primary, lightness: primary.lightness > 50 ? primary.lightness - 25 : primary.lightness + 25 };
+      break;
+    case 'analogous':
+      primary = { hue: wrapHue(theme.hue + rng() * 60 - 30), saturation: 60 + rng() * 30, lightness: lightness(35, 75) };
+      secondary = { ...primary, hue: wrapHue(primary.hue + (rng() < 0.5 ? -1 : 1) * (20 + rng() * 20)) };
+      break;
+    case 'triadic':
+      primary = {
+        hue: wrapHue(theme.hue + Math.floor(rng() * 3) * 120 + rng() * 20 - 10),
+        saturation: 65 + rng() * 30,
+        lightness: lightness(35, 75)
+      };
+      secondary = { ...primary, hue: wrapHue(primary.hue + 120) };
+      break;
+    case 'pastel':
+      primary = { hue: rng() * 360, saturation: 45 + rng() * 25, lightness: lightness(72, 88) };
+      secondary = { ...primary, hue: wrapHue(primary.hue + 30 + rng() * 60) };
+      break;
+    case 'neon':
+      primary = { hue: pick(NEON_HUES, rng), saturation: 100, lightness: lightness(50, 62) };
+      secondary = { ...primary, hue: pick(NEON_HUES.filter(hue => hue !== primary.hue), rng) };
+      break;
+    case 'earth':
+      primary = { hue: pick(EARTH_HUES, rng) + rng() * 10, saturation: 25 + rng() * 30, lightness: lightness(25, 58) };
+      secondary = { ...primary, hue: pick(EARTH_HUES, rng), saturation: primary.saturation * 0.8 };
+      break;
+    case 'swatches': {
+      const colors = theme.colors.filter(color => parseColor(color));
+      if (colors.length === 0) return pickPaletteColors(DEFAULT_PALETTE, rng, tone);
+
+      const index = Math.floor(rng() * colors.length);
+      const offset = colors.length > 1 ? 1 + Math.floor(rng() * (colors.length - 1)) : 0;
+      return { primary: colors[index], secondary: colors[(index + offset) % colors.length] };
+    }
+  }
+
+  return {
+    primary: formatHsl(primary),
+    secondary: formatHsl({ ...secondary, lightness: clamp(secondary.lightness, 10, 92) })
+  };
+}
+
+// Finds the dominant colors of an image by bucketing a downscaled copy to
+// 4 bits per channel and keeping the most common buckets that are not too
+// similar to one already chosen.
+export function extractImagePalette(image: CanvasImageSource, count = 6): string[] {
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_SAMPLE_SIZE;
+  canvas.height = IMAGE_SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  ctx.drawImage(image, 0, 0, IMAGE_SAMPLE_SIZE, IMAGE_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, IMAGE_SAMPLE_SIZE, IMAGE_SAMPLE_SIZE);
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  const swatches: [number, number, number][] = [];
+  const sorted = Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+  for (const bucket of sorted) {
+    const rgb: [number, number, number] = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count];
+    const distinct = swatches.every(swatch =>
+      Math.hypot(swatch[0] - rgb[0], swatch[1] - rgb[1], swatch[2] - rgb[2]) >= MIN_SWATCH_DISTANCE
+    );
+    if (distinct) swatches.push(rgb);
+    if (swatches.length === count) break;
+  }
+
+  return swatches.map(([r, g, b]) =>
+    `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`
+  );
+}
+
+export async function loadImagePalette(file: File, count = 6): Promise<string[]> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return extractImagePalette(bitmap, count);
+  } finally {
+    bitmap.close();
+  }
+}
+
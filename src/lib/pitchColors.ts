@@ -0,0 +1,51 @@
+import { AudioFeatures } from './featureExtractor';
+import { MusicalNote, frequencyToNote } from './pitchDetection';
+import { HslColor, formatHsl } from './colorUtils';
+import { PaletteColors } from './palettes';
+
+export type ColorMode = 'signature' | 'pitch';
+
+export const DEFAULT_COLOR_MODE: ColorMode = 'signature';
+
+const PITCH_CONFIDENCE_THRESHOLD = 0.8;
+// C is red and each semitone steps round the wheel until B lands on violet.
+const SEMITONE_HUE_STEP = 280 / 11;
+const MIN_OCTAVE = 1;
+const MAX_OCTAVE = 7;
+const MIN_CENTROID_HZ = 200;
+const MAX_CENTROID_HZ = 8000;
+
+export function pitchClassHue(pitchClass: number): number {
+  return pitchClass * SEMITONE_HUE_STEP;
+}
+
+// Uses the detected pitch when it is reliable, otherwise the dominant frequency.
+export function detectNote(features: AudioFeatures): MusicalNote | null {
+  const frequency = features.pitchConfidence >= PITCH_CONFIDENCE_THRESHOLD ? features.pitchHz : features.frequency;
+  return frequencyToNote(frequency);
+}
+
+// Hue follows pitch class, lightness follows octave and saturation follows
+// spectral centroid, so a given note always gets the same color whatever
+// mapping it matched.
+export function pitchToColors(features: AudioFeatures): PaletteColors | null {
+  const note = detectNote(features);
+  if (!note) return null;
+
+  const pitchClass = ((note.midi % 12) + 12) % 12;
+  const octaveNorm = (Math.max(MIN_OCTAVE, Math.min(note.octave, MAX_OCTAVE)) - MIN_OCTAVE) / (MAX_OCTAVE - MIN_OCTAVE);
+  const centroid = Math.max(MIN_CENTROID_HZ, Math.min(features.spectralCentroid, MAX_CENTROID_HZ));
+  const brightness = Math.log2(centroid / MIN_CENTROID_HZ) / Math.log2(MAX_CENTROID_HZ / MIN_CENTROID_HZ);
+
+  const primary: HslColor = {
+    hue: pitchClassHue(pitchClass),
+    saturation: 40 + brightness * 60,
+    lightness: 25 + octaveNorm * 55
+  };
+  const secondary: HslColor = {
+    ...primary,
+    lightness: primary.lightness > 50 ? primary.lightness - 20 : primary.lightness + 20
+  };
+
+  return { primary: formatHsl(primary), secondary: formatHsl(secondary) };
+}
@@ -0,0 +1,148 @@
+export interface PitchEstimate {
+  pitchHz: number;
+  confidence: number;
+}
+
+export interface MusicalNote {
+  name: string;
+  octave: number;
+  midi: number;
+  cents: number;
+}
+
+export interface PitchDetectionOptions {
+  minFrequency: number;
+  maxFrequency: number;
+  threshold: number;
+  silenceRms: number;
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const DEFAULT_OPTIONS: PitchDetectionOptions = {
+  minFrequency: 50,
+  maxFrequency: 2000,
+  threshold: 0.15,
+  silenceRms: 0.01
+};
+
+const NO_PITCH: PitchEstimate = { pitchHz: 0, confidence: 0 };
+
+// YIN fundamental frequency estimator (de Cheveigné & Kawahara, 2002).
+export function detectPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<PitchDetectionOptions> = {}
+): PitchEstimate {
+  const { minFrequency, maxFrequency, threshold, silenceRms } = { ...DEFAULT_OPTIONS, ...options };
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  if (Math.sqrt(sumSquares / samples.length) < silenceRms) {
+    return NO_PITCH;
+  }
+
+  const windowSize = Math.floor(samples.length / 2);
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const tauMax = Math.min(windowSize - 1, Math.ceil(sampleRate / minFrequency));
+  if (tauMax <= tauMin) {
+    return NO_PITCH;
+  }
+
+  const difference = new Float32Array(tauMax + 1);
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[j] - samples[j + tau];
+      sum += delta * delta;
+    }
+    difference[tau] = sum;
+  }
+
+  // Cumulative mean normalised difference; index 0 is defined as 1.
+  const normalized = new Float32Array(tauMax + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    runningSum += difference[tau];
+    normalized[tau] = runningSum > 0 ? (difference[tau] * tau) / runningSum : 1;
+  }
+
+  let bestTau = -1;
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (normalized[tau] < threshold) {
+      while (tau + 1 <= tauMax && normalized[tau + 1] < normalized[tau]) {
+        tau++;
+      }
+      bestTau = tau;
+      break;
+    }
+  }
+
+  if (bestTau === -1) {
+    let minValue = Infinity;
+    for (let tau = tauMin; tau <= tauMax; tau++) {
+      if (normalized[tau] < minValue) {
+        minValue = normalized[tau];
+        bestTau = tau;
+      }
+    }
+  }
+
+  const confidence = Math.max(0, Math.min(1, 1 - normalized[bestTau]));
+  const refinedTau = interpolatePeak(normalized, bestTau);
+
+  return {
+    pitchHz: sampleRate / refinedTau,
+    confidence
+  };
+}
+
+function interpolatePeak(values: Float32Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) {
+    return index;
+  }
+
+  const previous = values[index - 1];
+  const current = values[index];
+  const next = values[index + 1];
+  const denominator = previous - 2 * current + next;
+
+  if (denominator === 0) {
+    return index;
+  }
+
+  return index + (previous - next) / (2 * denominator);
+}
+
+export function frequencyToNote(frequency: number): MusicalNote | null {
+  if (!Number.isFinite(frequency) || frequency <= 0) {
+    return null;
+  }
+
+  const exactMidi = 69 + 12 * Math.log2(frequency / 440);
+  const midi = Math.round(exactMidi);
+
+  return {
+    name: NOTE_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    midi,
+    cents: Math.round((exactMidi - midi) * 100)
+  };
+}
+
+// Accepts note names such as "A4", "C#3" or "Bb2".
+export function noteToFrequency(name: string): number | null {
+  const match = /^([A-G])([#b]?)(-?\d)$/i.exec(name.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, letter, accidental, octave] = match;
+  const semitone = NOTE_NAMES.indexOf(letter.toUpperCase()) + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+  const midi = (parseInt(octave, 10) + 1) * 12 + semitone;
+
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
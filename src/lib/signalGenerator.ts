@@ -0,0 +1,215 @@
+import { AudioSource } from './audioSources';
+import { frequencyToNote, noteToFrequency } from './pitchDetection';
+
+export type TestSignal =
+  | { type: 'tone'; frequency: number; waveform?: OscillatorType }
+  | { type: 'chord'; frequencies: number[]; waveform?: OscillatorType }
+  | { type: 'sweep'; fromHz: number; toHz: number; durationSeconds: number }
+  | { type: 'noise'; color: 'white' | 'pink' }
+  | { type: 'clicks'; bpm: number };
+
+export interface TestSignalPreset {
+  id: string;
+  label: string;
+  signal: TestSignal;
+}
+
+export const TEST_SIGNAL_PRESETS: TestSignalPreset[] = [
+  { id: 'tone-a4', label: 'Tone A4 (440 Hz)', signal: { type: 'tone', frequency: 440 } },
+  { id: 'tone-c3', label: 'Tone C3 (131 Hz)', signal: { type: 'tone', frequency: 130.81 } },
+  { id: 'tone-a6', label: 'Tone A6 (1760 Hz)', signal: { type: 'tone', frequency: 1760 } },
+  { id: 'sweep', label: 'Sine Sweep 20 Hz – 20 kHz', signal: { type: 'sweep', fromHz: 20, toHz: 20000, durationSeconds: 10 } },
+  { id: 'white-noise', label: 'White Noise', signal: { type: 'noise', color: 'white' } },
+  { id: 'pink-noise', label: 'Pink Noise', signal: { type: 'noise', color: 'pink' } },
+  { id: 'clicks-120', label: 'Click Track 120 BPM', signal: { type: 'clicks', bpm: 120 } },
+  { id: 'chord-c-major', label: 'Chord C Major', signal: { type: 'chord', frequencies: [261.63, 329.63, 392] } },
+  { id: 'chord-a-minor-7', label: 'Chord A Minor 7', signal: { type: 'chord', frequencies: [220, 261.63, 329.63, 392] } }
+];
+
+export const DEFAULT_TEST_SIGNAL_PRESET = TEST_SIGNAL_PRESETS[0];
+export const CUSTOM_TEST_SIGNAL_ID = 'custom';
+
+export const WAVEFORMS: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+export const MIN_TEST_FREQUENCY = 20;
+export const MAX_TEST_FREQUENCY = 20000;
+export const MIN_CLICK_BPM = 20;
+export const MAX_CLICK_BPM = 300;
+
+// Takes a frequency in Hz ("440", "440 Hz") or a note name ("A4", "C#3").
+export function parseFrequency(text: string): number | null {
+  const hz = /^(\d+(?:\.\d+)?)\s*(hz)?$/i.exec(text.trim());
+  const frequency = hz ? parseFloat(hz[1]) : noteToFrequency(text);
+
+  return frequency !== null && frequency >= MIN_TEST_FREQUENCY && frequency <= MAX_TEST_FREQUENCY
+    ? frequency
+    : null;
+}
+
+export function describeTestSignal(signal: TestSignal): string {
+  const wave = (waveform?: OscillatorType) => (waveform && waveform !== 'sine' ? ` ${waveform}` : '');
+
+  switch (signal.type) {
+    case 'tone': {
+      const note = frequencyToNote(signal.frequency);
+      return `Tone${wave(signal.waveform)} ${Math.round(signal.frequency)} Hz${note ? ` (${note.name}${note.octave})` : ''}`;
+    }
+    case 'chord':
+      return `Chord${wave(signal.waveform)} ${signal.frequencies.map(f => Math.round(f)).join(' / ')} Hz`;
+    case 'sweep':
+      return `Sine Sweep ${signal.fromHz} Hz – ${signal.toHz} Hz`;
+    case 'noise':
+      return signal.color === 'white' ? 'White Noise' : 'Pink Noise';
+    case 'clicks':
+      return `Click Track ${signal.bpm} BPM`;
+  }
+}
+
+export function createCustomPreset(signal: TestSignal): TestSignalPreset {
+  return { id: CUSTOM_TEST_SIGNAL_ID, label: describeTestSignal(signal), signal };
+}
+
+const OUTPUT_GAIN = 0.25;
+const NOISE_SECONDS = 4;
+const NOISE_SEED = 0x5eed;
+const CLICK_SECONDS = 0.01;
+
+// Noise is drawn from a fixed seed so every run produces the same samples.
+function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+// Synthesises repeatable signals inside the AudioContext so the analysis
+// pipeline can be exercised without a microphone.
+export class GeneratorSource implements AudioSource {
+  readonly kind = 'generator';
+  readonly label: string;
+  readonly signal: TestSignal;
+  private output: GainNode | null = null;
+  private scheduledNodes: AudioScheduledSourceNode[] = [];
+
+  constructor(preset: TestSignalPreset = DEFAULT_TEST_SIGNAL_PRESET) {
+    this.label = preset.label;
+    this.signal = preset.signal;
+  }
+
+  async connect(audioContext: AudioContext): Promise<AudioNode> {
+    this.output = audioContext.createGain();
+    this.output.gain.value = OUTPUT_GAIN;
+    this.output.connect(audioContext.destination);
+
+    this.scheduledNodes = this.createNodes(audioContext, this.signal);
+    this.scheduledNodes.forEach(node => {
+      node.connect(this.output!);
+      node.start();
+    });
+
+    return this.output;
+  }
+
+  disconnect(): void {
+    this.scheduledNodes.forEach(node => {
+      node.stop();
+      node.disconnect();
+    });
+    this.scheduledNodes = [];
+
+    if (this.output) {
+      this.output.disconnect();
+      this.output = null;
+    }
+  }
+
+  private createNodes(audioContext: AudioContext, signal: TestSignal): AudioScheduledSourceNode[] {
+    switch (signal.type) {
+      case 'tone':
+        return [this.createOscillator(audioContext, signal.frequency, signal.waveform)];
+      case 'chord':
+        return signal.frequencies.map(frequency => this.createOscillator(audioContext, frequency, signal.waveform));
+      case 'sweep':
+        return [this.createLoop(audioContext, this.renderSweep(audioContext, signal.fromHz, signal.toHz, signal.durationSeconds))];
+      case 'noise':
+        return [this.createLoop(audioContext, this.renderNoise(audioContext, signal.color))];
+      case 'clicks':
+        return [this.createLoop(audioContext, this.renderClick(audioContext, signal.bpm))];
+    }
+  }
+
+  private createOscillator(audioContext: AudioContext, frequency: number, waveform: OscillatorType = 'sine'): OscillatorNode {
+    const oscillator = audioContext.createOscillator();
+    oscillator.type = waveform;
+    oscillator.frequency.value = frequency;
+    return oscillator;
+  }
+
+  private createLoop(audioContext: AudioContext, buffer: AudioBuffer): AudioBufferSourceNode {
+    const node = audioContext.createBufferSource();
+    node.buffer = buffer;
+    node.loop = true;
+    return node;
+  }
+
+  // Rendered into a buffer rather than automating an oscillator so the sweep
+  // loops seamlessly and starts at the same phase every time.
+  private renderSweep(audioContext: AudioContext, fromHz: number, toHz: number, durationSeconds: number): AudioBuffer {
+    const { sampleRate } = audioContext;
+    const length = Math.round(durationSeconds * sampleRate);
+    const buffer = audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+    const ratio = toHz / fromHz;
+
+    let phase = 0;
+    for (let i = 0; i < length; i++) {
+      const frequency = fromHz * Math.pow(ratio, i / length);
+      phase += (2 * Math.PI * frequency) / sampleRate;
+      data[i] = Math.sin(phase);
+    }
+
+    return buffer;
+  }
+
+  private renderNoise(audioContext: AudioContext, color: 'white' | 'pink'): AudioBuffer {
+    const { sampleRate } = audioContext;
+    const length = NOISE_SECONDS * sampleRate;
+    const buffer = audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+    const random = createSeededRandom(NOISE_SEED);
+
+    // Paul Kellet's economy pink noise filter.
+    let b0 = 0, b1 = 0, b2 = 0;
+    for (let i = 0; i < length; i++) {
+      const white = random() * 2 - 1;
+      if (color === 'white') {
+        data[i] = white;
+        continue;
+      }
+
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.25;
+    }
+
+    return buffer;
+  }
+
+  // One beat long with a decaying burst at the start, looped for a steady click track.
+  private renderClick(audioContext: AudioContext, bpm: number): AudioBuffer {
+    const { sampleRate } = audioContext;
+    const length = Math.round((60 / bpm) * sampleRate);
+    const buffer = audioContext.createBuffer(1, length, sampleRate);
+    const data = buffer.getChannelData(0);
+    const clickLength = Math.round(CLICK_SECONDS * sampleRate);
+    const random = createSeededRandom(NOISE_SEED);
+
+    for (let i = 0; i < clickLength; i++) {
+      const envelope = 1 - i / clickLength;
+      data[i] = (random() * 2 - 1) * envelope * envelope;
+    }
+
+    return buffer;
+  }
+}
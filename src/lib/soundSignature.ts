@@ -0,0 +1,51 @@
+import { AudioFeatures } from './featureExtractor';
+
+export const DEFAULT_MATCH_DISTANCE = 0.25;
+export const MIN_MATCH_DISTANCE = 0.05;
+export const MAX_MATCH_DISTANCE = 1;
+
+const PITCH_CONFIDENCE_THRESHOLD = 0.8;
+const PITCH_REFERENCE_HZ = 55;
+const BRIGHTNESS_REFERENCE_HZ = 250;
+
+// Components are scaled so a Euclidean distance of about 1 is a clearly
+// different sound: pitch in octaves, the low/mid/high balance as shares of the
+// total (so loudness does not move it), brightness in half-octaves of spectral
+// centroid, and noisiness. At the default distance a sound a few semitones off,
+// or with a slightly different tone colour, still matches.
+export function createFeatureVector(features: AudioFeatures): number[] {
+  const frequency = features.pitchConfidence >= PITCH_CONFIDENCE_THRESHOLD ? features.pitchHz : features.frequency;
+  const bandTotal = features.lowFreq + features.midFreq + features.highFreq;
+  const share = (value: number) => (bandTotal > 0 ? value / bandTotal : 1 / 3);
+
+  return [
+    Math.log2(Math.max(frequency, 20) / PITCH_REFERENCE_HZ),
+    share(features.lowFreq),
+    share(features.midFreq),
+    share(features.highFreq),
+    0.5 * Math.log2(Math.max(features.spectralCentroid, 20) / BRIGHTNESS_REFERENCE_HZ),
+    2 * features.spectralFlatness,
+    2 * features.zeroCrossingRate
+  ];
+}
+
+export function averageFeatureVector(vectors: number[][]): number[] {
+  if (vectors.length === 0) return [];
+
+  const sum = new Array(vectors[0].length).fill(0);
+  vectors.forEach(vector => vector.forEach((value, i) => {
+    sum[i] += value;
+  }));
+  return sum.map(value => value / vectors.length);
+}
+
+export function featureDistance(a: number[], b: number[]): number {
+  if (a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
@@ -0,0 +1,162 @@
+export interface SpectralDescriptors {
+  spectralCentroid: number;
+  spectralRolloff: number;
+  spectralFlatness: number;
+  zeroCrossingRate: number;
+  chroma: number[];
+  mfcc: number[];
+}
+
+const ROLLOFF_PERCENT = 0.85;
+const CHROMA_MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 5000;
+const MEL_FILTER_COUNT = 26;
+const MFCC_COUNT = 13;
+const MEL_MIN_FREQUENCY = 20;
+const EPSILON = 1e-10;
+
+export function hzToMel(frequency: number): number {
+  return 2595 * Math.log10(1 + frequency / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+export class SpectralFeatureExtractor {
+  private binCount: number;
+  private binFrequencies: Float32Array;
+  private chromaBins: Int8Array;
+  private melFilters: Array<{ start: number; weights: Float32Array }>;
+
+  constructor(binCount: number, sampleRate: number) {
+    const nyquist = sampleRate / 2;
+    this.binCount = binCount;
+
+    this.binFrequencies = new Float32Array(binCount);
+    this.chromaBins = new Int8Array(binCount).fill(-1);
+    for (let i = 0; i < binCount; i++) {
+      const frequency = (i * nyquist) / binCount;
+      this.binFrequencies[i] = frequency;
+
+      if (frequency >= CHROMA_MIN_FREQUENCY && frequency <= CHROMA_MAX_FREQUENCY) {
+        const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+        this.chromaBins[i] = ((midi % 12) + 12) % 12;
+      }
+    }
+
+    this.melFilters = this.createMelFilterbank(nyquist);
+  }
+
+  extract(magnitudes: Float32Array, timeDomain: Float32Array): SpectralDescriptors {
+    let magnitudeSum = 0;
+    let weightedSum = 0;
+    let powerSum = 0;
+    let logPowerSum = 0;
+    const chroma = new Array(12).fill(0);
+
+    for (let i = 0; i < this.binCount; i++) {
+      const magnitude = magnitudes[i];
+      const power = magnitude * magnitude;
+
+      magnitudeSum += magnitude;
+      weightedSum += magnitude * this.binFrequencies[i];
+      powerSum += power;
+      logPowerSum += Math.log(power + EPSILON);
+
+      if (this.chromaBins[i] >= 0) {
+        chroma[this.chromaBins[i]] += power;
+      }
+    }
+
+    const spectralCentroid = magnitudeSum > EPSILON ? weightedSum / magnitudeSum : 0;
+
+    let spectralRolloff = 0;
+    const rolloffTarget = powerSum * ROLLOFF_PERCENT;
+    let cumulative = 0;
+    for (let i = 0; i < this.binCount; i++) {
+      cumulative += magnitudes[i] * magnitudes[i];
+      if (cumulative >= rolloffTarget) {
+        spectralRolloff = this.binFrequencies[i];
+        break;
+      }
+    }
+
+    const arithmeticMean = powerSum / this.binCount;
+    const geometricMean = Math.exp(logPowerSum / this.binCount);
+    const spectralFlatness = arithmeticMean > EPSILON
+      ? Math.min(1, geometricMean / arithmeticMean)
+      : 0;
+
+    const chromaMax = Math.max(...chroma);
+    const normalizedChroma = chroma.map(value => (chromaMax > EPSILON ? value / chromaMax : 0));
+
+    return {
+      spectralCentroid,
+      spectralRolloff,
+      spectralFlatness,
+      zeroCrossingRate: this.calculateZeroCrossingRate(timeDomain),
+      chroma: normalizedChroma,
+      mfcc: this.calculateMfcc(magnitudes)
+    };
+  }
+
+  private calculateZeroCrossingRate(samples: Float32Array): number {
+    let crossings = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) {
+        crossings++;
+      }
+    }
+    return samples.length > 1 ? crossings / (samples.length - 1) : 0;
+  }
+
+  private calculateMfcc(magnitudes: Float32Array): number[] {
+    const logEnergies = this.melFilters.map(({ start, weights }) => {
+      let energy = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const magnitude = magnitudes[start + i];
+        energy += magnitude * magnitude * weights[i];
+      }
+      return Math.log(energy + EPSILON);
+    });
+
+    // DCT-II of the log mel energies.
+    const mfcc: number[] = [];
+    for (let k = 0; k < MFCC_COUNT; k++) {
+      let sum = 0;
+      for (let n = 0; n < logEnergies.length; n++) {
+        sum += logEnergies[n] * Math.cos((Math.PI * k * (n + 0.5)) / logEnergies.length);
+      }
+      mfcc.push(sum);
+    }
+    return mfcc;
+  }
+
+  private createMelFilterbank(nyquist: number): Array<{ start: number; weights: Float32Array }> {
+    const melMin = hzToMel(MEL_MIN_FREQUENCY);
+    const melMax = hzToMel(nyquist);
+    const edges: number[] = [];
+    for (let i = 0; i < MEL_FILTER_COUNT + 2; i++) {
+      const frequency = melToHz(melMin + ((melMax - melMin) * i) / (MEL_FILTER_COUNT + 1));
+      edges.push(Math.min(this.binCount - 1, Math.floor((frequency / nyquist) * this.binCount)));
+    }
+
+    const filters: Array<{ start: number; weights: Float32Array }> = [];
+    for (let m = 1; m <= MEL_FILTER_COUNT; m++) {
+      const left = Math.min(edges[m - 1], this.binCount - 3);
+      const center = Math.min(Math.max(edges[m], left + 1), this.binCount - 2);
+      const right = Math.min(Math.max(edges[m + 1], center + 1), this.binCount - 1);
+      const weights = new Float32Array(right - left + 1);
+
+      for (let bin = left; bin <= right; bin++) {
+        weights[bin - left] = bin <= center
+          ? (bin - left) / (center - left)
+          : (right - bin) / (right - center);
+      }
+
+      filters.push({ start: left, weights });
+    }
+    return filters;
+  }
+}
@@ -1,3 +1,5 @@
+import { MappingRuleSet } from './mappingRules';
+
 export interface SoundMapping {
   id: string;
   soundSignature: string;
@@ -9,6 +11,20 @@ export interface SoundMapping {
   sizeBase: number;
   opacityBase: number;
   animationStyle: string;
+  // Missing on mappings saved before similarity matching; those only match
+  // their exact signature.
+  featureVector?: number[];
+  // Locked mappings survive "clear all" and are meant to be kept as favourites.
+  locked?: boolean;
+  // Taught by the user; preferred over generated mappings when matching.
+  pinned?: boolean;
+  // Id of the mapping strategy that generated it; missing on older mappings.
+  strategy?: string;
+  // Set on sound family mappings: how many spawns have been grouped into it.
+  // The feature vector is then the family centroid.
+  clusterSize?: number;
+  hitCount?: number;
+  lastHitAt?: string;
   createdAt: string;
 }
 
@@ -25,6 +41,8 @@ export interface Artwork {
 
 const SOUND_MAPPINGS_KEY = 'soundVisual_mappings';
 const ARTWORKS_KEY = 'soundVisual_artworks';
+const NOISE_FLOORS_KEY = 'soundVisual_noiseFloors';
+const MAPPING_RULES_KEY = 'soundVisual_mappingRules';
 
 export const StorageService = {
   getSoundMapping(signature: string): SoundMapping | null {
@@ -50,6 +68,15 @@ export const StorageService = {
     localStorage.setItem(SOUND_MAPPINGS_KEY, JSON.stringify(mappings));
   },
 
+  saveSoundMappings(mappings: SoundMapping[]): void {
+    localStorage.setItem(SOUND_MAPPINGS_KEY, JSON.stringify(mappings));
+  },
+
+  deleteSoundMapping(id: string): void {
+    const mappings = this.getAllSoundMappings().filter(m => m.id !== id);
+    localStorage.setItem(SOUND_MAPPINGS_KEY, JSON.stringify(mappings));
+  },
+
   saveArtwork(artwork: Artwork): void {
     const artworks = this.getAllArtworks();
     artworks.push(artwork);
@@ -68,5 +95,35 @@ export const StorageService = {
 
   clearAllMappings(): void {
     localStorage.removeItem(SOUND_MAPPINGS_KEY);
+  },
+
+  getNoiseFloors(): Record<string, number> {
+    const data = localStorage.getItem(NOISE_FLOORS_KEY);
+    return data ? JSON.parse(data) : {};
+  },
+
+  saveNoiseFloor(deviceId: string, noiseFloor: number): void {
+    const noiseFloors = this.getNoiseFloors();
+    noiseFloors[deviceId] = noiseFloor;
+    localStorage.setItem(NOISE_FLOORS_KEY, JSON.stringify(noiseFloors));
+  },
+
+  deleteNoiseFloor(deviceId: string): void {
+    const noiseFloors = this.getNoiseFloors();
+    delete noiseFloors[deviceId];
+    localStorage.setItem(NOISE_FLOORS_KEY, JSON.stringify(noiseFloors));
+  },
+
+  getMappingRules(): MappingRuleSet | null {
+    const data = localStorage.getItem(MAPPING_RULES_KEY);
+    return data ? JSON.parse(data) : null;
+  },
+
+  saveMappingRules(ruleSet: MappingRuleSet | null): void {
+    if (ruleSet) {
+      localStorage.setItem(MAPPING_RULES_KEY, JSON.stringify(ruleSet));
+    } else {
+      localStorage.removeItem(MAPPING_RULES_KEY);
+    }
   }
 };
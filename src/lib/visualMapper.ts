@@ -1,20 +1,81 @@
 import { SoundMapping, StorageService } from './storage';
 import { AudioFeatures } from './audioProcessor';
+import { DEFAULT_MATCH_DISTANCE, averageFeatureVector, createFeatureVector, featureDistance } from './soundSignature';
+import { DEFAULT_PALETTE, PaletteTheme, pickPaletteColors } from './palettes';
+import { parseColor } from './colorUtils';
+import { ColorMode, DEFAULT_COLOR_MODE, pitchToColors } from './pitchColors';
+import {
+  DEFAULT_MAPPING_STRATEGY,
+  createSeededRandom,
+  getFrequencyRange,
+  getMappingStrategy,
+  hashSignature
+} from './mappingStrategies';
 
-const VISUAL_TYPES = ['geometric', 'particle', 'brush', 'organic'] as const;
-const SHAPE_TYPES = {
-  geometric: ['circle', 'square', 'triangle', 'hexagon', 'star', 'diamond'],
-  particle: ['dots', 'sparkles', 'burst', 'trail', 'spiral'],
-  brush: ['soft', 'textured', 'splatter', 'calligraphy', 'spray'],
-  organic: ['blob', 'wave', 'tentacle', 'fractal', 'flow']
-};
-const ANIMATION_STYLES = ['pulse', 'rotate', 'expand', 'fade', 'oscillate', 'drift'];
+import {
+  MappingRule,
+  MappingRuleSet,
+  RULES_STRATEGY_ID,
+  createRuleMapping,
+  getRuleId,
+  matchRule
+} from './mappingRules';
+import { ImportOptions, ImportResult } from './mappingPacks';
+
+export { ANIMATION_STYLES, SHAPE_TYPES } from './mappingStrategies';
+
+export type MappingEdit = Partial<Pick<
+  SoundMapping,
+  'colorPrimary' | 'colorSecondary' | 'visualType' | 'shapeType' | 'animationStyle' | 'sizeBase' | 'opacityBase' | 'locked'
+>>;
+
+export type TaughtLook = Pick<
+  SoundMapping,
+  'visualType' | 'shapeType' | 'colorPrimary' | 'colorSecondary' | 'animationStyle'
+>;
+
+// Pinned mappings match within a wider radius so a taught sound wins over
+// generated mappings that sit slightly closer.
+const PINNED_MATCH_SCALE = 1.5;
+// Frames quieter than this share of the loudest one are ignored when teaching.
+const TEACH_LEVEL_RATIO = 0.5;
+
+// Hit counts change every spawn, so they are written back in batches.
+const HIT_FLUSH_DELAY_MS = 2000;
+// Family centroids move by at most 1/CLUSTER_MEMORY per spawn, so they keep
+// adapting slowly instead of freezing once a family is large.
+const CLUSTER_MEMORY = 500;
+
+export const DEFAULT_CLUSTER_LIMIT = 8;
+export const MIN_CLUSTER_LIMIT = 2;
+export const MAX_CLUSTER_LIMIT = 32;
+
+interface FamilyAssignment {
+  mapping: SoundMapping;
+  featureVector: number[];
+}
 
 export class VisualMapper {
   private mappingCache: Map<string, SoundMapping> = new Map();
+  private matchDistance = DEFAULT_MATCH_DISTANCE;
+  private hitFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  private changeListeners: Array<(mappings: SoundMapping[]) => void> = [];
+  private palette: PaletteTheme = DEFAULT_PALETTE;
+  private colorMode: ColorMode = DEFAULT_COLOR_MODE;
+  private strategyId = DEFAULT_MAPPING_STRATEGY;
+  private ruleSet: MappingRuleSet | null = null;
+  private clusterLimit: number | null = null;
+  // Set on copies made for offline renders, which must leave the library alone.
+  private readOnly = false;
+  // The family the last frame was assigned to; it only learns from the frame
+  // if that frame actually spawned a shape.
+  private pendingFamily: FamilyAssignment | null = null;
+  // Keyed by the stored mapping object, so an edited mapping is re-themed.
+  private themedMappings = new WeakMap<SoundMapping, SoundMapping>();
 
   constructor() {
     this.loadExistingMappings();
+    this.ruleSet = StorageService.getMappingRules();
   }
 
   private loadExistingMappings(): void {
@@ -26,111 +87,429 @@ export class VisualMapper {
 
   getOrCreateMapping(audioFeatures: AudioFeatures): SoundMapping {
     const { signature } = audioFeatures;
+    const featureVector = createFeatureVector(audioFeatures);
+
+    const taught = this.findNearestMapping(featureVector, true);
+    if (taught) {
+      return this.applyColors(taught, audioFeatures);
+    }
+
+    // Rules can test amplitude, onsets and beats, which the feature vector
+    // leaves out, so they are checked on every frame rather than only when a
+    // mapping is first created.
+    const rule = this.ruleSet && matchRule(this.ruleSet, audioFeatures);
+    if (rule) {
+      return this.applyColors(this.getOrCreateRuleMapping(rule, audioFeatures, featureVector), audioFeatures);
+    }
+
+    if (this.clusterLimit !== null) {
+      return this.applyColors(this.findFamily(audioFeatures, featureVector), audioFeatures);
+    }
+
+    const nearest = this.findNearestMapping(featureVector, false);
+    if (nearest) {
+      return this.applyColors(nearest, audioFeatures);
+    }
 
     if (this.mappingCache.has(signature)) {
-      return this.mappingCache.get(signature)!;
+      return this.applyColors(this.mappingCache.get(signature)!, audioFeatures);
     }
 
-    const newMapping = this.createMapping(audioFeatures);
+    const newMapping = this.createMapping(audioFeatures, featureVector);
     this.mappingCache.set(signature, newMapping);
-    StorageService.saveSoundMapping(newMapping);
+    this.saveMapping(newMapping);
+    this.notifyChange();
 
-    return newMapping;
+    return this.applyColors(newMapping, audioFeatures);
   }
 
-  private createMapping(audioFeatures: AudioFeatures): SoundMapping {
-    const seed = this.hashSignature(audioFeatures.signature);
-    const rng = this.createSeededRandom(seed);
+  // Themes only change the colors handed to the renderer; stored mappings
+  // keep their own colors and come back when the spectrum theme is chosen.
+  setPalette(palette: PaletteTheme): void {
+    this.palette = palette;
+    this.themedMappings = new WeakMap();
+  }
 
-    const visualType = VISUAL_TYPES[Math.floor(rng() * VISUAL_TYPES.length)];
-    const shapeType = SHAPE_TYPES[visualType][Math.floor(rng() * SHAPE_TYPES[visualType].length)];
-    const animationStyle = ANIMATION_STYLES[Math.floor(rng() * ANIMATION_STYLES.length)];
+  getPalette(): PaletteTheme {
+    return this.palette;
+  }
 
-    const colorPrimary = this.generateColor(rng, audioFeatures);
-    const colorSecondary = this.generateComplementaryColor(colorPrimary, rng);
+  // With a limit set, sounds are grouped online into at most that many
+  // families, each with one mapping. Pass null to go back to per-sound mappings.
+  setClusterLimit(limit: number | null): void {
+    this.clusterLimit = limit;
+    this.pendingFamily = null;
+  }
 
-    const frequencyNorm = Math.min(audioFeatures.frequency / 2000, 1);
-    const sizeBase = 10 + (frequencyNorm * 40) + (rng() * 20);
-    const opacityBase = 0.5 + (rng() * 0.3);
+  getClusterLimit(): number | null {
+    return this.clusterLimit;
+  }
 
-    return {
-      id: crypto.randomUUID(),
-      soundSignature: audioFeatures.signature,
-      frequencyRange: this.getFrequencyRange(audioFeatures.frequency),
-      visualType,
-      colorPrimary,
-      colorSecondary,
-      shapeType,
-      sizeBase,
-      opacityBase,
-      animationStyle,
-      createdAt: new Date().toISOString()
-    };
+  // Rules are expected to have passed validateRuleSet(); pass null to remove them.
+  // Mappings made by rules that are no longer in the set are dropped unless locked.
+  setRuleSet(ruleSet: MappingRuleSet | null): void {
+    this.ruleSet = ruleSet;
+    StorageService.saveMappingRules(ruleSet);
+
+    const prefixes = (ruleSet?.rules ?? []).map(rule => `rule-${getRuleId(rule)}-`);
+    const stale = this.getMappings().filter(mapping =>
+      mapping.strategy === RULES_STRATEGY_ID &&
+      !mapping.locked &&
+      !prefixes.some(prefix => mapping.soundSignature.startsWith(prefix))
+    );
+    if (stale.length > 0) {
+      stale.forEach(mapping => this.mappingCache.delete(mapping.soundSignature));
+      StorageService.saveSoundMappings(this.getMappings());
+      this.notifyChange();
+    }
+  }
+
+  getRuleSet(): MappingRuleSet | null {
+    return this.ruleSet;
+  }
+
+  // Only affects mappings created from now on; existing ones keep their look.
+  setStrategy(id: string): void {
+    this.strategyId = id;
+  }
+
+  getStrategy(): string {
+    return this.strategyId;
+  }
+
+  // In pitch mode colors follow the note being played rather than the mapping.
+  setColorMode(mode: ColorMode): void {
+    this.colorMode = mode;
+  }
+
+  getColorMode(): ColorMode {
+    return this.colorMode;
   }
 
-  private hashSignature(signature: string): number {
-    let hash = 0;
-    for (let i = 0; i < signature.length; i++) {
-      const char = signature.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  // Locked and taught mappings keep the colors the user chose for them.
+  private applyColors(mapping: SoundMapping, audioFeatures: AudioFeatures): SoundMapping {
+    if (mapping.locked || mapping.pinned) {
+      return mapping;
+    }
+
+    if (this.colorMode === 'pitch') {
+      const colors = pitchToColors(audioFeatures);
+      return colors ? { ...mapping, colorPrimary: colors.primary, colorSecondary: colors.secondary } : mapping;
     }
-    return Math.abs(hash);
+
+    return this.applyPalette(mapping);
+  }
+
+  private applyPalette(mapping: SoundMapping): SoundMapping {
+    if (this.palette.kind === 'spectrum') {
+      return mapping;
+    }
+
+    let themed = this.themedMappings.get(mapping);
+    if (!themed) {
+      const rng = createSeededRandom(hashSignature(mapping.soundSignature));
+      const lightness = parseColor(mapping.colorPrimary)?.lightness ?? 50;
+      const tone = Math.max(0, Math.min((lightness - 35) / 50, 1));
+      const { primary, secondary } = pickPaletteColors(this.palette, rng, tone);
+
+      themed = { ...mapping, colorPrimary: primary, colorSecondary: secondary };
+      this.themedMappings.set(mapping, themed);
+    }
+
+    return themed;
   }
 
-  private createSeededRandom(seed: number): () => number {
-    let value = seed;
+  getMappings(): SoundMapping[] {
+    return Array.from(this.mappingCache.values());
+  }
+
+  updateMapping(id: string, changes: MappingEdit): SoundMapping | null {
+    const existing = this.findMappingById(id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...changes };
+    this.mappingCache.set(updated.soundSignature, updated);
+    StorageService.saveSoundMapping(updated);
+    this.notifyChange();
+
+    return updated;
+  }
+
+  deleteMapping(id: string): void {
+    const existing = this.findMappingById(id);
+    if (!existing) return;
+
+    this.mappingCache.delete(existing.soundSignature);
+    StorageService.deleteSoundMapping(id);
+    this.notifyChange();
+  }
+
+  // Called when a mapping actually spawned a shape, not on every lookup.
+  recordHit(id: string): void {
+    if (this.pendingFamily?.mapping.id === id) {
+      this.learnFamily(this.pendingFamily);
+      this.pendingFamily = null;
+    }
+
+    const mapping = this.findMappingById(id);
+    if (!mapping || this.readOnly) return;
+
+    mapping.hitCount = (mapping.hitCount ?? 0) + 1;
+    mapping.lastHitAt = new Date().toISOString();
+
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.hitFlushTimer === null && !this.readOnly) {
+      this.hitFlushTimer = setTimeout(() => {
+        this.hitFlushTimer = null;
+        StorageService.saveSoundMappings(this.getMappings());
+        this.notifyChange();
+      }, HIT_FLUSH_DELAY_MS);
+    }
+  }
+
+  private saveMapping(mapping: SoundMapping): void {
+    if (!this.readOnly) {
+      StorageService.saveSoundMapping(mapping);
+    }
+  }
+
+  // A mapper with the same settings over a copy of the library, for offline
+  // renders. It matches and generates mappings as usual, but keeps new ones in
+  // memory and records no hits, so an export leaves the library untouched.
+  createReadOnlyCopy(): VisualMapper {
+    const copy = new VisualMapper();
+    copy.readOnly = true;
+    copy.mappingCache = new Map(
+      Array.from(this.mappingCache, ([signature, mapping]) => [signature, { ...mapping }])
+    );
+    copy.matchDistance = this.matchDistance;
+    copy.palette = this.palette;
+    copy.colorMode = this.colorMode;
+    copy.strategyId = this.strategyId;
+    copy.ruleSet = this.ruleSet;
+    copy.clusterLimit = this.clusterLimit;
+
+    return copy;
+  }
+
+  // Leader clustering: join the nearest family if it is within the match
+  // distance or no more families are allowed, otherwise start a new one. A
+  // new family is only kept once a frame assigned to it spawns a shape.
+  // Families from earlier sessions can outnumber a lowered limit, so only the
+  // largest ones up to the limit take part.
+  private findFamily(audioFeatures: AudioFeatures, featureVector: number[]): SoundMapping {
+    const families = this.getMappings()
+      .filter(mapping => mapping.clusterSize !== undefined && mapping.featureVector)
+      .sort((a, b) => b.clusterSize! - a.clusterSize!)
+      .slice(0, this.clusterLimit!);
+    let nearest: SoundMapping | null = null;
+    let nearestDistance = Infinity;
+
+    for (const family of families) {
+      const distance = featureDistance(featureVector, family.featureVector!);
+      if (distance < nearestDistance) {
+        nearest = family;
+        nearestDistance = distance;
+      }
+    }
+
+    let mapping: SoundMapping;
+    if (nearest && (nearestDistance <= this.matchDistance || families.length >= this.clusterLimit!)) {
+      mapping = nearest;
+    } else {
+      const created = this.createMapping(audioFeatures, featureVector);
+      mapping = { ...created, soundSignature: `family-${created.id}`, clusterSize: 0 };
+    }
+
+    this.pendingFamily = { mapping, featureVector };
+    return mapping;
+  }
+
+  private learnFamily({ mapping, featureVector }: FamilyAssignment): void {
+    if (mapping.clusterSize === 0) {
+      mapping.clusterSize = 1;
+      this.mappingCache.set(mapping.soundSignature, mapping);
+      this.saveMapping(mapping);
+      this.notifyChange();
+      return;
+    }
+
+    mapping.clusterSize = (mapping.clusterSize ?? 0) + 1;
+    if (!mapping.locked && mapping.featureVector) {
+      const rate = 1 / Math.min(mapping.clusterSize, CLUSTER_MEMORY);
+      mapping.featureVector = mapping.featureVector.map((value, i) => value + (featureVector[i] - value) * rate);
+    }
+    this.scheduleFlush();
+  }
+
+  onMappingsChange(callback: (mappings: SoundMapping[]) => void): () => void {
+    this.changeListeners.push(callback);
+
     return () => {
-      value = (value * 9301 + 49297) % 233280;
-      return value / 233280;
+      this.changeListeners = this.changeListeners.filter(cb => cb !== callback);
     };
   }
 
-  private generateColor(rng: () => number, audioFeatures: AudioFeatures): string {
-    const { lowFreq, midFreq, highFreq } = audioFeatures;
+  private findMappingById(id: string): SoundMapping | undefined {
+    return this.getMappings().find(mapping => mapping.id === id);
+  }
 
-    const hue = Math.floor(rng() * 360);
-    const saturation = 60 + Math.floor(rng() * 40);
+  private notifyChange(): void {
+    const mappings = this.getMappings();
+    this.changeListeners.forEach(listener => listener(mappings));
+  }
 
-    let lightness = 50;
-    if (lowFreq > midFreq && lowFreq > highFreq) {
-      lightness = 35 + Math.floor(rng() * 25);
-    } else if (highFreq > lowFreq && highFreq > midFreq) {
-      lightness = 60 + Math.floor(rng() * 25);
-    } else {
-      lightness = 45 + Math.floor(rng() * 20);
+  setMatchDistance(distance: number): void {
+    this.matchDistance = distance;
+  }
+
+  getMatchDistance(): number {
+    return this.matchDistance;
+  }
+
+  // Builds a pinned mapping from frames captured while the user made the
+  // sound, averaging the louder frames so silence either side is ignored.
+  teachMapping(samples: AudioFeatures[], look: TaughtLook): SoundMapping {
+    const loudest = samples.reduce<AudioFeatures | null>(
+      (best, frame) => (!best || frame.amplitude > best.amplitude ? frame : best),
+      null
+    );
+    if (!loudest || loudest.amplitude <= 0) {
+      throw new Error('No sound was heard while recording the sample');
+    }
+
+    const voiced = samples.filter(frame => frame.amplitude >= loudest.amplitude * TEACH_LEVEL_RATIO);
+    const id = crypto.randomUUID();
+    const mapping: SoundMapping = {
+      id,
+      soundSignature: `taught-${id}`,
+      frequencyRange: getFrequencyRange(loudest.frequency),
+      ...look,
+      sizeBase: 20 + Math.min(loudest.frequency / 2000, 1) * 40,
+      opacityBase: 0.7,
+      featureVector: averageFeatureVector(voiced.map(createFeatureVector)),
+      pinned: true,
+      locked: true,
+      createdAt: new Date().toISOString()
+    };
+
+    this.mappingCache.set(mapping.soundSignature, mapping);
+    StorageService.saveSoundMapping(mapping);
+    this.notifyChange();
+
+    return mapping;
+  }
+
+  // Rule mappings only apply while their rule matches, so they are left out.
+  private findNearestMapping(featureVector: number[], pinned: boolean): SoundMapping | null {
+    return this.findNearest(
+      featureVector,
+      pinned ? this.matchDistance * PINNED_MATCH_SCALE : this.matchDistance,
+      mapping => !!mapping.pinned === pinned && mapping.strategy !== RULES_STRATEGY_ID
+    );
+  }
+
+  private findNearest(
+    featureVector: number[],
+    maxDistance: number,
+    accept: (mapping: SoundMapping) => boolean
+  ): SoundMapping | null {
+    let nearest: SoundMapping | null = null;
+    let nearestDistance = maxDistance;
+
+    for (const mapping of this.mappingCache.values()) {
+      if (!mapping.featureVector || !accept(mapping)) continue;
+
+      const distance = featureDistance(featureVector, mapping.featureVector);
+      if (distance <= nearestDistance) {
+        nearest = mapping;
+        nearestDistance = distance;
+      }
     }
 
-    return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+    return nearest;
   }
 
-  private generateComplementaryColor(primaryColor: string, rng: () => number): string {
-    const hueMatch = primaryColor.match(/hsl\((\d+)/);
-    if (!hueMatch) return primaryColor;
+  // Within a rule, sounds share a mapping by feature distance just like
+  // generated ones, so a long rule-matched passage does not keep adding more.
+  private getOrCreateRuleMapping(rule: MappingRule, audioFeatures: AudioFeatures, featureVector: number[]): SoundMapping {
+    const prefix = `rule-${getRuleId(rule)}-`;
+    const nearest = this.findNearest(featureVector, this.matchDistance, mapping => mapping.soundSignature.startsWith(prefix));
+    if (nearest) {
+      return nearest;
+    }
 
-    const primaryHue = parseInt(hueMatch[1]);
-    const hueOffset = 150 + Math.floor(rng() * 60);
-    const newHue = (primaryHue + hueOffset) % 360;
+    const key = prefix + audioFeatures.signature;
+    const existing = this.mappingCache.get(key);
+    if (existing) {
+      return existing;
+    }
 
-    const satMatch = primaryColor.match(/hsl\(\d+,\s*(\d+)%/);
-    const lightMatch = primaryColor.match(/hsl\(\d+,\s*\d+%,\s*(\d+)%/);
+    const mapping: SoundMapping = {
+      ...createRuleMapping(rule, audioFeatures, featureVector),
+      soundSignature: key,
+      strategy: RULES_STRATEGY_ID
+    };
+    this.mappingCache.set(key, mapping);
+    this.saveMapping(mapping);
+    this.notifyChange();
 
-    const saturation = satMatch ? parseInt(satMatch[1]) : 70;
-    const lightness = lightMatch ? parseInt(lightMatch[1]) : 50;
+    return mapping;
+  }
+
+  // Unknown strategy ids fall back to the default so a stale session setting
+  // still works.
+  private createMapping(audioFeatures: AudioFeatures, featureVector: number[]): SoundMapping {
+    const strategy = getMappingStrategy(this.strategyId) ?? getMappingStrategy(DEFAULT_MAPPING_STRATEGY)!;
 
-    return `hsl(${newHue}, ${saturation}%, ${lightness}%)`;
+    return { ...strategy.createMapping(audioFeatures, featureVector), strategy: strategy.id };
   }
 
-  private getFrequencyRange(freq: number): string {
-    if (freq < 250) return 'sub-bass';
-    if (freq < 500) return 'bass';
-    if (freq < 2000) return 'midrange';
-    if (freq < 6000) return 'upper-mid';
-    return 'treble';
+  // Conflicts are matched by signature. An imported mapping that replaces one
+  // of ours keeps our id so references to it stay valid. Locked mappings are
+  // kept on replace, like clearCache, and win any conflict in either mode.
+  importMappings(mappings: SoundMapping[], { mode, onConflict }: ImportOptions): ImportResult {
+    const result: ImportResult = { added: 0, replaced: 0, skipped: 0 };
+    if (mode === 'replace') {
+      const locked = this.getMappings().filter(mapping => mapping.locked);
+      this.mappingCache.clear();
+      locked.forEach(mapping => this.mappingCache.set(mapping.soundSignature, mapping));
+    }
+
+    // A pack may repeat a signature; the last entry wins, as it would on save.
+    const unique = new Map(mappings.map(mapping => [mapping.soundSignature, mapping]));
+
+    unique.forEach(mapping => {
+      const existing = this.mappingCache.get(mapping.soundSignature);
+      if (existing && (onConflict === 'keep-existing' || mode === 'replace' || existing.locked)) {
+        result.skipped++;
+        return;
+      }
+
+      this.mappingCache.set(mapping.soundSignature, { ...mapping, id: existing?.id ?? crypto.randomUUID() });
+      if (existing) {
+        result.replaced++;
+      } else {
+        result.added++;
+      }
+    });
+
+    StorageService.saveSoundMappings(this.getMappings());
+    this.notifyChange();
+
+    return result;
   }
 
+  // Removes every mapping except locked ones.
   clearCache(): void {
+    const locked = this.getMappings().filter(mapping => mapping.locked);
+
     this.mappingCache.clear();
-    StorageService.clearAllMappings();
+    locked.forEach(mapping => this.mappingCache.set(mapping.soundSignature, mapping));
+    StorageService.saveSoundMappings(locked);
+    this.notifyChange();
   }
 }
@@ -1,13 +1,40 @@
 import { SoundMapping } from './storage';
 import { AudioFeatures } from './audioProcessor';
 
+export type SpawnMode = 'continuous' | 'onset' | 'beat';
+export type Placement = 'random' | 'spatial';
+
 export interface RenderOptions {
   globalOpacity: number;
   sensitivity: number;
   fadeEnabled: boolean;
   fadeDuration: number;
+  spawnMode: SpawnMode;
+  threshold: number;
+  placement: Placement;
+}
+
+export interface RendererConfig {
+  // Source of the current time in ms; offline rendering drives this itself.
+  clock?: () => number;
+  // Drawing scale, so a large export canvas matches the live canvas layout.
+  scale?: number;
 }
 
+// Pitch range mapped from the bottom to the top of the canvas in spatial placement.
+const SPATIAL_MIN_HZ = 60;
+const SPATIAL_MAX_HZ = 2000;
+const SPATIAL_JITTER = 0.04;
+// Shapes advance by a fixed step per frame, matching the 60 fps animation loop.
+const FRAME_STEP = 1 / 60;
+// Oscillation rate range in Hz, following the live pitch from 110 Hz upwards.
+const OSCILLATE_MIN_HZ = 0.5;
+const OSCILLATE_MAX_HZ = 4;
+// Positions remembered by `trail` particles for drawing their tails.
+const TRAIL_LENGTH = 24;
+const SPIRAL_ARMS = 3;
+const PREVIEW_STEPS = 20;
+
 interface AnimatedShape {
   type: 'geometric' | 'brush' | 'organic';
   mapping: SoundMapping;
@@ -25,6 +52,8 @@ interface AnimatedShape {
   vy: number;
   growthRate: number;
   opacityPhase: number;
+  phase: number;
+  wave: number;
 }
 
 interface Particle {
@@ -42,34 +71,66 @@ interface Particle {
   rotationSpeed: number;
   scale: number;
   maxScale: number;
+  shapeType: string;
+  // gravity is px/s² (positive is down), drag the share of velocity kept each
+  // frame, and swirl the rate in rad/s at which it orbits its origin.
+  gravity: number;
+  drag: number;
+  swirl: number;
+  originX: number;
+  originY: number;
+  twinklePhase: number;
+  trail: Array<{ x: number; y: number }>;
 }
 
 export class VisualRenderer {
   private ctx: CanvasRenderingContext2D;
+  private clock: () => number;
+  private scale: number;
   private particles: Particle[] = [];
   private animatedShapes: AnimatedShape[] = [];
   private animationTime = 0;
   private lastFrameTime = 0;
+  // Live audio the motion models respond to, updated every rendered frame.
+  private liveLevel = 0;
+  private livePitchHz = 0;
   private currentOptions: RenderOptions = {
     globalOpacity: 0.7,
     sensitivity: 1,
     fadeEnabled: false,
-    fadeDuration: 3000
+    fadeDuration: 3000,
+    spawnMode: 'continuous',
+    threshold: 0.02,
+    placement: 'random'
   };
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, config: RendererConfig = {}) {
     this.ctx = canvas.getContext('2d')!;
-    this.lastFrameTime = performance.now();
+    this.clock = config.clock ?? (() => performance.now());
+    this.scale = config.scale ?? 1;
+    if (this.scale !== 1) {
+      this.ctx.setTransform(this.scale, 0, 0, this.scale, 0, 0);
+    }
+    this.lastFrameTime = this.clock();
+  }
+
+  private get width(): number {
+    return this.ctx.canvas.width / this.scale;
+  }
+
+  private get height(): number {
+    return this.ctx.canvas.height / this.scale;
   }
 
+  // Returns whether a new shape was spawned for this frame.
   render(
     mapping: SoundMapping,
     audioFeatures: AudioFeatures,
     options: RenderOptions
-  ): void {
+  ): boolean {
     const wasFadeEnabled = this.currentOptions.fadeEnabled;
     this.currentOptions = options;
-    const now = performance.now();
+    const now = this.clock();
     const deltaTime = (now - this.lastFrameTime) / 1000;
     this.lastFrameTime = now;
     this.animationTime += deltaTime;
@@ -85,14 +146,19 @@ export class VisualRenderer {
     }
 
     const amplitudeScaled = audioFeatures.amplitude * options.sensitivity;
-    const threshold = 0.02;
+    this.liveLevel = Math.min(amplitudeScaled, 1);
+    this.livePitchHz = audioFeatures.pitchConfidence >= 0.8 ? audioFeatures.pitchHz : audioFeatures.frequency;
+    // Silence never spawns, whatever the threshold; fade-only frames after
+    // recording stops are rendered with zero amplitude.
+    const shouldSpawn = amplitudeScaled > 0 &&
+      amplitudeScaled >= options.threshold &&
+      this.isSpawnTrigger(audioFeatures, options.spawnMode);
 
     if (this.currentOptions.fadeEnabled) {
-      this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+      this.ctx.clearRect(0, 0, this.width, this.height);
 
-      if (amplitudeScaled >= threshold) {
-        const x = Math.random() * this.ctx.canvas.width;
-        const y = Math.random() * this.ctx.canvas.height;
+      if (shouldSpawn) {
+        const { x, y } = this.getSpawnPosition(audioFeatures, options.placement);
         const size = Math.max(mapping.sizeBase * (1 + amplitudeScaled * 3), 40);
         const opacity = 0.8;
 
@@ -114,13 +180,12 @@ export class VisualRenderer {
 
       this.updateAnimatedElements(now);
     } else {
-      if (amplitudeScaled < threshold) {
+      if (!shouldSpawn) {
         this.updateAnimatedElements(now);
-        return;
+        return false;
       }
 
-      const x = Math.random() * this.ctx.canvas.width;
-      const y = Math.random() * this.ctx.canvas.height;
+      const { x, y } = this.getSpawnPosition(audioFeatures, options.placement);
       const size = Math.max(mapping.sizeBase * (1 + amplitudeScaled * 3), 40);
       const opacity = 0.8;
 
@@ -141,6 +206,39 @@ export class VisualRenderer {
 
       this.updateAnimatedElements(now);
     }
+
+    return shouldSpawn;
+  }
+
+  private isSpawnTrigger(audioFeatures: AudioFeatures, spawnMode: SpawnMode): boolean {
+    switch (spawnMode) {
+      case 'onset':
+        return audioFeatures.onset;
+      case 'beat':
+        return audioFeatures.beat;
+      default:
+        return true;
+    }
+  }
+
+  // Spatial placement puts stereo position on x and pitch on y (log scale, high
+  // notes at the top); a little jitter keeps repeated notes from stacking.
+  private getSpawnPosition(audioFeatures: AudioFeatures, placement: Placement): { x: number; y: number } {
+    const { width, height } = this;
+
+    if (placement === 'random') {
+      return { x: Math.random() * width, y: Math.random() * height };
+    }
+
+    const frequency = audioFeatures.pitchConfidence >= 0.8 ? audioFeatures.pitchHz : audioFeatures.spectralCentroid;
+    const clamped = Math.max(SPATIAL_MIN_HZ, Math.min(SPATIAL_MAX_HZ, frequency || SPATIAL_MIN_HZ));
+    const pitchPosition = Math.log(clamped / SPATIAL_MIN_HZ) / Math.log(SPATIAL_MAX_HZ / SPATIAL_MIN_HZ);
+    const jitter = () => (Math.random() - 0.5) * 2 * SPATIAL_JITTER;
+
+    const xRatio = Math.max(0, Math.min(1, (audioFeatures.pan + 1) / 2 + jitter()));
+    const yRatio = Math.max(0, Math.min(1, 1 - pitchPosition + jitter()));
+
+    return { x: xRatio * width, y: yRatio * height };
   }
 
   private randomDuration(): number {
@@ -178,7 +276,7 @@ export class VisualRenderer {
       y,
       baseSize: size,
       baseOpacity: opacity,
-      startTime: performance.now(),
+      startTime: this.clock(),
       duration,
       rotation: Math.random() * Math.PI * 2,
       rotationSpeed: (Math.random() - 0.5) * 2,
@@ -187,7 +285,9 @@ export class VisualRenderer {
       vx: Math.cos(angle) * speed,
       vy: Math.sin(angle) * speed,
       growthRate: 0.3 + Math.random() * 0.7,
-      opacityPhase: Math.random() * Math.PI * 2
+      opacityPhase: Math.random() * Math.PI * 2,
+      phase: 0,
+      wave: 0
     };
 
     console.log('AnimatedShape created:', shape);
@@ -204,22 +304,27 @@ export class VisualRenderer {
     amplitude: number,
     now: number
   ): void {
-    const count = Math.floor(5 + amplitude * 15);
-
-    for (let i = 0; i < count; i++) {
-      const angle = (Math.PI * 2 * i) / count + Math.random() * 0.2;
-      const distance = size * (0.5 + Math.random() * 0.5);
-      const speed = 50 + Math.random() * 100;
-      const px = x + Math.cos(angle) * distance;
-      const py = y + Math.sin(angle) * distance;
-
-      const particle: Particle = {
-        x: px,
-        y: py,
+    this.particles.push(...this.emitParticles(mapping, x, y, size, amplitude, now));
+  }
+
+  // Each particle shape type has its own spawn pattern and physics.
+  private emitParticles(
+    mapping: SoundMapping,
+    x: number,
+    y: number,
+    size: number,
+    amplitude: number,
+    now: number
+  ): Particle[] {
+    const particles: Particle[] = [];
+    const emit = (index: number, angle: number, distance: number, speed: number, overrides: Partial<Particle>) => {
+      particles.push({
+        x: x + Math.cos(angle) * distance,
+        y: y + Math.sin(angle) * distance,
         vx: Math.cos(angle) * speed,
         vy: Math.sin(angle) * speed,
         size: size * 0.2,
-        color: i % 2 === 0 ? mapping.colorPrimary : mapping.colorSecondary,
+        color: index % 2 === 0 ? mapping.colorPrimary : mapping.colorSecondary,
         life: 1,
         decay: 0.015,
         startTime: now,
@@ -227,11 +332,90 @@ export class VisualRenderer {
         rotation: Math.random() * Math.PI * 2,
         rotationSpeed: (Math.random() - 0.5) * 4,
         scale: 0.5,
-        maxScale: 1 + Math.random() * 1.5
-      };
+        maxScale: 1 + Math.random() * 1.5,
+        shapeType: mapping.shapeType,
+        gravity: 0,
+        drag: 1,
+        swirl: 0,
+        originX: x,
+        originY: y,
+        twinklePhase: Math.random() * Math.PI * 2,
+        trail: [],
+        ...overrides
+      });
+    };
+
+    switch (mapping.shapeType) {
+      // Twinkling stars scattered over a disc, floating gently upwards.
+      case 'sparkles': {
+        const count = Math.floor(6 + amplitude * 12);
+        for (let i = 0; i < count; i++) {
+          emit(i, Math.random() * Math.PI * 2, size * Math.sqrt(Math.random()), 10 + Math.random() * 30, {
+            size: size * (0.1 + Math.random() * 0.15),
+            gravity: -30,
+            drag: 0.98,
+            rotationSpeed: (Math.random() - 0.5) * 8
+          });
+        }
+        break;
+      }
+
+      // Fast streaks thrown out from the center that slow down and fall.
+      case 'burst': {
+        const count = Math.floor(12 + amplitude * 30);
+        for (let i = 0; i < count; i++) {
+          emit(i, Math.random() * Math.PI * 2, 0, 200 + Math.random() * 250 * (1 + amplitude), {
+            size: size * 0.08,
+            gravity: 220,
+            drag: 0.94,
+            duration: 800 + Math.random() * 800
+          });
+        }
+        break;
+      }
+
+      // A few long-lived particles on curving paths that leave tails.
+      case 'trail': {
+        const count = Math.floor(3 + amplitude * 5);
+        for (let i = 0; i < count; i++) {
+          emit(i, Math.random() * Math.PI * 2, 0, 60 + Math.random() * 80, {
+            size: size * 0.08,
+            swirl: (Math.random() < 0.5 ? -1 : 1) * (0.5 + Math.random() * 1.5),
+            duration: 2500 + Math.random() * 1500,
+            maxScale: 1
+          });
+        }
+        break;
+      }
+
+      // Particles released along a few arms that wind outwards together.
+      case 'spiral': {
+        const count = Math.floor(9 + amplitude * 15);
+        const swirl = 2 + amplitude * 2;
+        for (let i = 0; i < count; i++) {
+          const arm = i % SPIRAL_ARMS;
+          const step = Math.floor(i / SPIRAL_ARMS);
+          emit(i, (Math.PI * 2 * arm) / SPIRAL_ARMS + step * 0.35, size * 0.1 * step, 40 + step * 6, {
+            size: size * 0.12,
+            swirl,
+            maxScale: 1
+          });
+        }
+        break;
+      }
 
-      this.particles.push(particle);
+      // dots: a ring of circles drifting outwards.
+      default: {
+        const count = Math.floor(5 + amplitude * 15);
+        for (let i = 0; i < count; i++) {
+          const angle = (Math.PI * 2 * i) / count + Math.random() * 0.2;
+          emit(i, angle, size * (0.5 + Math.random() * 0.5), 50 + Math.random() * 100, { drag: 0.99 });
+        }
+        break;
+      }
     }
+
+    return particles;
   }
 
   private updateAnimatedElements(now: number): void {
@@ -252,19 +436,11 @@ export class VisualRenderer {
           continue;
         }
 
-        const animProgress = Math.min(elapsed / 1000, 1);
-        const easedProgress = this.easeInOutCubic(animProgress);
-
-        shape.x += shape.vx * (1 / 60);
-        shape.y += shape.vy * (1 / 60);
-        shape.rotation += shape.rotationSpeed * (1 / 60);
-        shape.scale = 0.5 + easedProgress * shape.scaleSpeed;
-
         const fadeProgress = elapsed / totalDuration;
-        const currentOpacity = shape.baseOpacity * (1 - fadeProgress);
+        const opacityMod = this.animateShape(shape, Math.min(elapsed / 1000, 1), fadeProgress);
+        const currentOpacity = shape.baseOpacity * (1 - fadeProgress) * opacityMod;
 
-        const currentSize = shape.baseSize * shape.scale;
-        this.renderShape(shape, currentSize, currentOpacity);
+        this.renderShape(shape, shape.baseSize * shape.scale, currentOpacity);
       } else {
         const progress = Math.min(elapsed / shape.duration, 1);
 
@@ -273,18 +449,71 @@ export class VisualRenderer {
           continue;
         }
 
-        const easedProgress = this.easeInOutCubic(progress);
+        const opacityMod = this.animateShape(shape, progress, progress);
+        const currentOpacity = shape.baseOpacity * (1 - progress * 0.3) * opacityMod;
 
-        shape.x += shape.vx * (1 / 60);
-        shape.y += shape.vy * (1 / 60);
-        shape.rotation += shape.rotationSpeed * (1 / 60);
-        shape.scale = 0.5 + easedProgress * shape.scaleSpeed;
+        this.renderShape(shape, shape.baseSize * shape.scale, currentOpacity);
+      }
+    }
+  }
 
-        const opacityMod = Math.sin(this.animationTime * 2 + shape.opacityPhase) * 0.2 + 0.8;
-        const currentOpacity = shape.baseOpacity * (1 - progress * 0.3) * opacityMod;
-        const currentSize = shape.baseSize * shape.scale;
+  // Advances one frame of the shape's motion model and returns an opacity
+  // multiplier. `growth` drives the scale easing; `life` runs from 0 to 1 over
+  // the shape's lifetime.
+  private animateShape(shape: AnimatedShape, growth: number, life: number): number {
+    const level = this.liveLevel;
+    const eased = 0.5 + this.easeInOutCubic(growth) * shape.scaleSpeed;
+
+    switch (shape.mapping.animationStyle) {
+      // Stays put and throbs, swelling with the current amplitude.
+      case 'pulse': {
+        shape.phase += Math.PI * 2 * (1.5 + level * 2) * FRAME_STEP;
+        shape.scale = eased * (1 + level * 0.6) * (1 + Math.sin(shape.phase) * 0.15 * (0.3 + level));
+        return 0.7 + level * 0.3;
+      }
+
+      // Spins on the spot, faster when the sound is louder.
+      case 'rotate': {
+        shape.rotation += Math.sign(shape.rotationSpeed || 1) * (1 + level * 5) * FRAME_STEP;
+        shape.scale = eased;
+        return 1;
+      }
+
+      // Grows like a ripple and thins out as it spreads; loud moments swell it.
+      case 'expand': {
+        shape.scale = (0.3 + this.easeOutQuad(life) * (1 + shape.growthRate * 2)) * (1 + level * 0.3);
+        return 1 - life * 0.6;
+      }
 
-        this.renderShape(shape, currentSize, currentOpacity);
+      // Holds still and fades in then out.
+      case 'fade': {
+        shape.scale = eased;
+        return life < 0.5 ? this.easeInOutQuad(life * 2) : this.easeInOutQuad(2 - life * 2);
+      }
+
+      // Travels slowly while swinging sideways at a rate set by the pitch.
+      case 'oscillate': {
+        const octaves = Math.log2(Math.max(this.livePitchHz, 110) / 110);
+        const rate = Math.min(OSCILLATE_MIN_HZ + octaves, OSCILLATE_MAX_HZ);
+        const speed = Math.hypot(shape.vx, shape.vy) || 1;
+        const wave = Math.sin(shape.phase) * shape.baseSize * 0.3 * (0.5 + level);
+
+        shape.phase += Math.PI * 2 * rate * FRAME_STEP;
+        shape.x += shape.vx * 0.5 * FRAME_STEP - (shape.vy / speed) * (wave - shape.wave);
+        shape.y += shape.vy * 0.5 * FRAME_STEP + (shape.vx / speed) * (wave - shape.wave);
+        shape.wave = wave;
+        shape.scale = eased;
+        return 1;
+      }
+
+      // Drifts in a straight line, pushed further by loud sounds.
+      default: {
+        const push = 1 + level;
+        shape.x += shape.vx * push * FRAME_STEP;
+        shape.y += shape.vy * push * FRAME_STEP;
+        shape.rotation += shape.rotationSpeed * FRAME_STEP;
+        shape.scale = eased;
+        return Math.sin(this.animationTime * 2 + shape.opacityPhase) * 0.2 + 0.8;
       }
     }
   }
@@ -441,26 +670,11 @@ export class VisualRenderer {
           continue;
         }
 
-        const animProgress = Math.min(elapsed / 1000, 1);
-        const easedProgress = this.easeOutQuad(animProgress);
-
-        p.x += p.vx * (1 / 60);
-        p.y += p.vy * (1 / 60);
-        p.rotation += p.rotationSpeed * (1 / 60);
+        const easedProgress = this.easeOutQuad(Math.min(elapsed / 1000, 1));
+        this.stepParticle(p);
         p.scale = 0.5 + easedProgress * (p.maxScale - 0.5);
 
-        const fadeProgress = elapsed / totalDuration;
-        const currentOpacity = 1 - fadeProgress;
-
-        this.ctx.save();
-        this.ctx.globalAlpha = currentOpacity;
-        this.ctx.translate(p.x, p.y);
-        this.ctx.rotate(p.rotation);
-        this.ctx.fillStyle = p.color;
-        this.ctx.beginPath();
-        this.ctx.arc(0, 0, p.size * p.scale, 0, Math.PI * 2);
-        this.ctx.fill();
-        this.ctx.restore();
+        this.drawParticle(p, 1 - elapsed / totalDuration);
       } else {
         const progress = Math.min(elapsed / p.duration, 1);
 
@@ -470,23 +684,115 @@ export class VisualRenderer {
         }
 
         const easedProgress = this.easeOutQuad(progress);
-
-        p.x += p.vx * (1 / 60);
-        p.y += p.vy * (1 / 60);
-        p.rotation += p.rotationSpeed * (1 / 60);
+        this.stepParticle(p);
         p.scale = 0.5 + easedProgress * (p.maxScale - 0.5);
         p.life = 1 - progress;
 
-        this.ctx.save();
-        this.ctx.globalAlpha = p.life;
+        this.drawParticle(p, p.life);
+      }
+    }
+
+    this.ctx.restore();
+  }
+
+  private stepParticle(p: Particle): void {
+    if (p.shapeType === 'trail') {
+      p.trail.push({ x: p.x, y: p.y });
+      if (p.trail.length > TRAIL_LENGTH) p.trail.shift();
+    }
+
+    p.vy += p.gravity * FRAME_STEP;
+    p.vx *= p.drag;
+    p.vy *= p.drag;
+    p.x += p.vx * FRAME_STEP;
+    p.y += p.vy * FRAME_STEP;
+    p.rotation += p.rotationSpeed * FRAME_STEP;
+
+    if (p.swirl !== 0) {
+      // Turn both the offset from the origin and the velocity, so outward
+      // motion winds into a spiral and straight paths bend into arcs.
+      const cos = Math.cos(p.swirl * FRAME_STEP);
+      const sin = Math.sin(p.swirl * FRAME_STEP);
+      const dx = p.x - p.originX;
+      const dy = p.y - p.originY;
+      p.x = p.originX + dx * cos - dy * sin;
+      p.y = p.originY + dx * sin + dy * cos;
+      const vx = p.vx;
+      p.vx = vx * cos - p.vy * sin;
+      p.vy = vx * sin + p.vy * cos;
+    }
+  }
+
+  private drawParticle(p: Particle, opacity: number): void {
+    const size = p.size * p.scale;
+
+    this.ctx.save();
+    this.ctx.globalAlpha = Math.max(0, opacity);
+    this.ctx.fillStyle = p.color;
+    this.ctx.strokeStyle = p.color;
+    this.ctx.lineCap = 'round';
+
+    switch (p.shapeType) {
+      case 'sparkles': {
+        const twinkle = 0.5 + 0.5 * Math.sin(this.animationTime * 12 + p.twinklePhase);
+        this.ctx.globalAlpha = Math.max(0, opacity) * (0.3 + twinkle * 0.7);
         this.ctx.translate(p.x, p.y);
         this.ctx.rotate(p.rotation);
-        this.ctx.fillStyle = p.color;
         this.ctx.beginPath();
-        this.ctx.arc(0, 0, p.size * p.scale, 0, Math.PI * 2);
+        for (let i = 0; i < 8; i++) {
+          const angle = (Math.PI * 2 * i) / 8;
+          const radius = i % 2 === 0 ? size * (0.8 + twinkle * 0.4) : size * 0.2;
+          this.ctx.lineTo(Math.cos(angle) * radius, Math.sin(angle) * radius);
+        }
+        this.ctx.closePath();
         this.ctx.fill();
-        this.ctx.restore();
+        break;
       }
+
+      case 'burst': {
+        const speed = Math.hypot(p.vx, p.vy);
+        const length = Math.min(speed * 0.08, size * 8) + size;
+        this.ctx.lineWidth = size;
+        this.ctx.beginPath();
+        this.ctx.moveTo(p.x, p.y);
+        this.ctx.lineTo(p.x - (p.vx / (speed || 1)) * length, p.y - (p.vy / (speed || 1)) * length);
+        this.ctx.stroke();
+        break;
+      }
+
+      case 'trail': {
+        // Without fading the canvas keeps what was drawn, so only the newest
+        // segment is needed for the tail to persist.
+        const points = this.currentOptions.fadeEnabled ? p.trail : p.trail.slice(-1);
+        this.ctx.lineWidth = size * 0.6;
+        this.ctx.beginPath();
+        points.forEach((point, index) => {
+          if (index === 0) {
+            this.ctx.moveTo(point.x, point.y);
+          } else {
+            this.ctx.lineTo(point.x, point.y);
+          }
+        });
+        this.ctx.lineTo(p.x, p.y);
+        this.ctx.stroke();
+        this.ctx.beginPath();
+        this.ctx.arc(p.x, p.y, size, 0, Math.PI * 2);
+        this.ctx.fill();
+        break;
+      }
+
+      case 'spiral': {
+        this.ctx.beginPath();
+        this.ctx.arc(p.x, p.y, size * (0.4 + p.life * 0.6), 0, Math.PI * 2);
+        this.ctx.fill();
+        break;
+      }
+
+      default:
+        this.ctx.beginPath();
+        this.ctx.arc(p.x, p.y, size, 0, Math.PI * 2);
+        this.ctx.fill();
+        break;
     }
 
     this.ctx.restore();
@@ -600,11 +906,55 @@ export class VisualRenderer {
   }
 
   clear(): void {
-    this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+    this.ctx.clearRect(0, 0, this.width, this.height);
     this.particles = [];
     this.animatedShapes = [];
   }
 
+  // Draws a single still example of the mapping centred on the canvas, for
+  // previews in the mapping library.
+  renderPreview(mapping: SoundMapping): void {
+    const size = Math.min(this.width, this.height) * 0.3;
+    const x = this.width / 2;
+    const y = this.height / 2;
+
+    this.ctx.clearRect(0, 0, this.width, this.height);
+
+    if (mapping.visualType === 'particle') {
+      // Run the emitter for a moment so the preview shows its pattern.
+      const particles = this.emitParticles(mapping, x, y, size * 0.6, 0.5, 0);
+      for (let step = 0; step < PREVIEW_STEPS; step++) {
+        particles.forEach(particle => this.stepParticle(particle));
+      }
+      particles.forEach(particle => {
+        particle.scale = 1;
+        this.drawParticle(particle, mapping.opacityBase);
+      });
+      return;
+    }
+
+    this.renderShape({
+      type: mapping.visualType,
+      mapping,
+      x,
+      y,
+      baseSize: size,
+      baseOpacity: mapping.opacityBase,
+      startTime: 0,
+      duration: 0,
+      rotation: 0,
+      rotationSpeed: 0,
+      scale: 1,
+      scaleSpeed: 0,
+      vx: 0,
+      vy: 0,
+      growthRate: 0,
+      opacityPhase: 0,
+      phase: 0,
+      wave: 0
+    }, size, mapping.opacityBase);
+  }
+
   hasActiveElements(): boolean {
     return this.particles.length > 0 || this.animatedShapes.length > 0;
   }